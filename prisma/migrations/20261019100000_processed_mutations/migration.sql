@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "public"."ProcessedMutation" (
+    "key" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "requestHash" TEXT NOT NULL,
+    "statusCode" INTEGER NOT NULL,
+    "response" JSONB NOT NULL,
+    "etag" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProcessedMutation_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "ProcessedMutation_createdAt_idx" ON "public"."ProcessedMutation"("createdAt");
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "RoomAssignment_updatedAt_idx" ON "public"."RoomAssignment"("updatedAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."RoomAssignment" ADD COLUMN     "deletedAt" TIMESTAMP(3);
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "public"."UserRole" AS ENUM ('ATTENDANT', 'SUPERVISOR', 'MANAGER', 'ADMIN');
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "role" "public"."UserRole" NOT NULL DEFAULT 'ATTENDANT';
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "public"."UserAuditAction" AS ENUM ('CREATED', 'ROLE_CHANGED', 'DEACTIVATED', 'REACTIVATED', 'PASSWORD_RESET');
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "active" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "public"."UserAuditEntry" (
+    "id" TEXT NOT NULL,
+    "action" "public"."UserAuditAction" NOT NULL,
+    "actorId" TEXT,
+    "targetUserId" TEXT NOT NULL,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserAuditEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UserAuditEntry_targetUserId_createdAt_idx" ON "public"."UserAuditEntry"("targetUserId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."UserAuditEntry" ADD CONSTRAINT "UserAuditEntry_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."UserAuditEntry" ADD CONSTRAINT "UserAuditEntry_targetUserId_fkey" FOREIGN KEY ("targetUserId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
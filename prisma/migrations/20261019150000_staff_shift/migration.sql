@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "public"."StaffShift" AS ENUM ('MORNING', 'AFTERNOON', 'NIGHT');
+
+-- AlterEnum
+ALTER TYPE "public"."UserAuditAction" ADD VALUE 'SHIFT_CHANGED';
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "shift" "public"."StaffShift";
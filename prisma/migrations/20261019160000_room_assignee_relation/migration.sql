@@ -0,0 +1,37 @@
+-- Drop assignments that point at users which no longer exist
+UPDATE "public"."RoomAssignment" SET "assignedTo" = NULL
+WHERE "assignedTo" IS NOT NULL
+  AND "assignedTo" NOT IN (SELECT "id" FROM "public"."User");
+
+-- CreateTable
+CREATE TABLE "public"."RoomAssigneeChange" (
+    "id" TEXT NOT NULL,
+    "roomAssignmentId" INTEGER NOT NULL,
+    "fromUserId" TEXT,
+    "toUserId" TEXT,
+    "changedById" TEXT,
+    "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RoomAssigneeChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RoomAssignment_assignedTo_idx" ON "public"."RoomAssignment"("assignedTo");
+
+-- CreateIndex
+CREATE INDEX "RoomAssigneeChange_roomAssignmentId_changedAt_idx" ON "public"."RoomAssigneeChange"("roomAssignmentId", "changedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."RoomAssignment" ADD CONSTRAINT "RoomAssignment_assignedTo_fkey" FOREIGN KEY ("assignedTo") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RoomAssigneeChange" ADD CONSTRAINT "RoomAssigneeChange_roomAssignmentId_fkey" FOREIGN KEY ("roomAssignmentId") REFERENCES "public"."RoomAssignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RoomAssigneeChange" ADD CONSTRAINT "RoomAssigneeChange_fromUserId_fkey" FOREIGN KEY ("fromUserId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RoomAssigneeChange" ADD CONSTRAINT "RoomAssigneeChange_toUserId_fkey" FOREIGN KEY ("toUserId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RoomAssigneeChange" ADD CONSTRAINT "RoomAssigneeChange_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
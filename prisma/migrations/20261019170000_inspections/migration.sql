@@ -0,0 +1,86 @@
+-- CreateEnum
+CREATE TYPE "public"."InspectionItemOutcome" AS ENUM ('PASS', 'FAIL', 'NOT_APPLICABLE');
+
+-- AlterTable
+ALTER TABLE "public"."RoomAssignment" ADD COLUMN     "reworkNote" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."InspectionTemplate" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "roomType" TEXT,
+    "passingScore" INTEGER NOT NULL DEFAULT 80,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InspectionTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."InspectionTemplateItem" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "weight" INTEGER NOT NULL DEFAULT 1,
+    "critical" BOOLEAN NOT NULL DEFAULT false,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "InspectionTemplateItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."Inspection" (
+    "id" TEXT NOT NULL,
+    "roomAssignmentId" INTEGER NOT NULL,
+    "templateId" TEXT,
+    "inspectorId" TEXT,
+    "score" INTEGER NOT NULL,
+    "passed" BOOLEAN NOT NULL,
+    "notes" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Inspection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."InspectionItemResult" (
+    "id" TEXT NOT NULL,
+    "inspectionId" TEXT NOT NULL,
+    "templateItemId" TEXT,
+    "label" TEXT NOT NULL,
+    "weight" INTEGER NOT NULL,
+    "critical" BOOLEAN NOT NULL,
+    "outcome" "public"."InspectionItemOutcome" NOT NULL,
+    "notes" TEXT,
+
+    CONSTRAINT "InspectionItemResult_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InspectionTemplate_roomType_active_idx" ON "public"."InspectionTemplate"("roomType", "active");
+
+-- CreateIndex
+CREATE INDEX "InspectionTemplateItem_templateId_position_idx" ON "public"."InspectionTemplateItem"("templateId", "position");
+
+-- CreateIndex
+CREATE INDEX "Inspection_roomAssignmentId_completedAt_idx" ON "public"."Inspection"("roomAssignmentId", "completedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."InspectionTemplateItem" ADD CONSTRAINT "InspectionTemplateItem_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "public"."InspectionTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Inspection" ADD CONSTRAINT "Inspection_roomAssignmentId_fkey" FOREIGN KEY ("roomAssignmentId") REFERENCES "public"."RoomAssignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Inspection" ADD CONSTRAINT "Inspection_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "public"."InspectionTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Inspection" ADD CONSTRAINT "Inspection_inspectorId_fkey" FOREIGN KEY ("inspectorId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."InspectionItemResult" ADD CONSTRAINT "InspectionItemResult_inspectionId_fkey" FOREIGN KEY ("inspectionId") REFERENCES "public"."Inspection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."InspectionItemResult" ADD CONSTRAINT "InspectionItemResult_templateItemId_fkey" FOREIGN KEY ("templateItemId") REFERENCES "public"."InspectionTemplateItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "public"."CleaningServiceType" AS ENUM ('DEPARTURE', 'STAY_OVER', 'TURNDOWN', 'DEEP_CLEAN');
+
+-- AlterTable
+ALTER TABLE "public"."RoomAssignment" ADD COLUMN     "cleaningType" "public"."CleaningServiceType",
+ADD COLUMN     "completedSteps" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "public"."CleaningChecklistTemplate" (
+    "id" TEXT NOT NULL,
+    "serviceType" "public"."CleaningServiceType" NOT NULL,
+    "name" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CleaningChecklistTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."CleaningChecklistStep" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "CleaningChecklistStep_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CleaningChecklistTemplate_serviceType_active_idx" ON "public"."CleaningChecklistTemplate"("serviceType", "active");
+
+-- CreateIndex
+CREATE INDEX "CleaningChecklistStep_templateId_position_idx" ON "public"."CleaningChecklistStep"("templateId", "position");
+
+-- AddForeignKey
+ALTER TABLE "public"."CleaningChecklistStep" ADD CONSTRAINT "CleaningChecklistStep_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "public"."CleaningChecklistTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
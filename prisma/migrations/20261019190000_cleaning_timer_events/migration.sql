@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "public"."CleaningTimerEventType" AS ENUM ('START', 'PAUSE', 'RESUME', 'FINISH');
+
+-- CreateTable
+CREATE TABLE "public"."CleaningTimerEvent" (
+    "id" TEXT NOT NULL,
+    "roomAssignmentId" INTEGER NOT NULL,
+    "userId" TEXT,
+    "type" "public"."CleaningTimerEventType" NOT NULL,
+    "reason" TEXT,
+    "deviceTime" TIMESTAMP(3) NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CleaningTimerEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CleaningTimerEvent_roomAssignmentId_occurredAt_idx" ON "public"."CleaningTimerEvent"("roomAssignmentId", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX "CleaningTimerEvent_occurredAt_idx" ON "public"."CleaningTimerEvent"("occurredAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."CleaningTimerEvent" ADD CONSTRAINT "CleaningTimerEvent_roomAssignmentId_fkey" FOREIGN KEY ("roomAssignmentId") REFERENCES "public"."RoomAssignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CleaningTimerEvent" ADD CONSTRAINT "CleaningTimerEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
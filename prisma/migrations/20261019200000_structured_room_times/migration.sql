@@ -0,0 +1,83 @@
+-- Wall-clock strings such as "10:00 AM" are read as times on the day the
+-- migration runs, in the property's time zone. Set the zone beforehand with
+--   ALTER DATABASE <name> SET app.property_time_zone = 'Asia/Jakarta';
+-- otherwise UTC is assumed. Values that cannot be read are kept in notes.
+
+CREATE FUNCTION pg_temp.parse_wall_clock(input TEXT) RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  tz TEXT := COALESCE(NULLIF(current_setting('app.property_time_zone', true), ''), 'UTC');
+  parts TEXT[];
+  hours INTEGER;
+BEGIN
+  parts := regexp_match(input, '^\s*(\d{1,2}):(\d{2})\s*([AaPp][Mm])?\s*$');
+  IF parts IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  hours := parts[1]::INTEGER;
+  IF parts[3] IS NOT NULL THEN
+    hours := hours % 12 + CASE WHEN upper(parts[3]) = 'PM' THEN 12 ELSE 0 END;
+  END IF;
+
+  IF hours > 23 OR parts[2]::INTEGER > 59 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN ((now() AT TIME ZONE tz)::DATE + make_time(hours, parts[2]::INTEGER, 0)) AT TIME ZONE tz;
+END;
+$$ LANGUAGE plpgsql;
+
+-- "45 min", "45", "1h 30m", "1.5 hours" or "1:30"
+CREATE FUNCTION pg_temp.parse_minutes(input TEXT) RETURNS INTEGER AS $$
+DECLARE
+  parts TEXT[];
+BEGIN
+  parts := regexp_match(lower(input), '^\s*(\d+):(\d{2})\s*$');
+  IF parts IS NOT NULL THEN
+    RETURN parts[1]::INTEGER * 60 + parts[2]::INTEGER;
+  END IF;
+
+  parts := regexp_match(lower(input), '^\s*(?:(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hours?))?\s*(?:(\d+)\s*(?:m|min|mins|minutes?)?)?\s*$');
+  IF parts IS NOT NULL AND (parts[1] IS NOT NULL OR parts[2] IS NOT NULL) THEN
+    RETURN round(COALESCE(parts[1]::NUMERIC, 0) * 60)::INTEGER + COALESCE(parts[2]::INTEGER, 0);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- AlterTable
+ALTER TABLE "public"."RoomAssignment" ADD COLUMN     "checkoutAt" TIMESTAMPTZ(3),
+ADD COLUMN     "guestCheckoutAt" TIMESTAMPTZ(3),
+ADD COLUMN     "nextCheckinAt" TIMESTAMPTZ(3),
+ADD COLUMN     "estimatedMinutes" INTEGER;
+
+UPDATE "public"."RoomAssignment" SET
+  "checkoutAt" = pg_temp.parse_wall_clock("checkoutTime"),
+  "guestCheckoutAt" = pg_temp.parse_wall_clock("guestCheckout"),
+  "nextCheckinAt" = pg_temp.parse_wall_clock("nextCheckin"),
+  "estimatedMinutes" = pg_temp.parse_minutes("estimatedTime");
+
+UPDATE "public"."RoomAssignment" SET "notes" = concat_ws(E'\n',
+  NULLIF("notes", ''),
+  CASE WHEN NULLIF(trim("checkoutTime"), '') IS NOT NULL AND "checkoutAt" IS NULL THEN 'Checkout: ' || "checkoutTime" END,
+  CASE WHEN NULLIF(trim("guestCheckout"), '') IS NOT NULL AND "guestCheckoutAt" IS NULL THEN 'Guest checkout: ' || "guestCheckout" END,
+  CASE WHEN NULLIF(trim("nextCheckin"), '') IS NOT NULL AND "nextCheckinAt" IS NULL THEN 'Next check-in: ' || "nextCheckin" END,
+  CASE WHEN NULLIF(trim("estimatedTime"), '') IS NOT NULL AND "estimatedMinutes" IS NULL THEN 'Estimated time: ' || "estimatedTime" END
+)
+WHERE (NULLIF(trim("checkoutTime"), '') IS NOT NULL AND "checkoutAt" IS NULL)
+   OR (NULLIF(trim("guestCheckout"), '') IS NOT NULL AND "guestCheckoutAt" IS NULL)
+   OR (NULLIF(trim("nextCheckin"), '') IS NOT NULL AND "nextCheckinAt" IS NULL)
+   OR (NULLIF(trim("estimatedTime"), '') IS NOT NULL AND "estimatedMinutes" IS NULL);
+
+ALTER TABLE "public"."RoomAssignment" DROP COLUMN "checkoutTime",
+DROP COLUMN "guestCheckout",
+DROP COLUMN "nextCheckin",
+DROP COLUMN "estimatedTime";
+
+ALTER TABLE "public"."RoomAssignment" RENAME COLUMN "checkoutAt" TO "checkoutTime";
+ALTER TABLE "public"."RoomAssignment" RENAME COLUMN "guestCheckoutAt" TO "guestCheckout";
+ALTER TABLE "public"."RoomAssignment" RENAME COLUMN "nextCheckinAt" TO "nextCheckin";
+
+-- CreateIndex
+CREATE INDEX "RoomAssignment_nextCheckin_idx" ON "public"."RoomAssignment"("nextCheckin");
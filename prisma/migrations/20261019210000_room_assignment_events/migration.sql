@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "public"."RoomAssignmentEventType" AS ENUM ('CREATED', 'UPDATED', 'DELETED');
+
+-- CreateEnum
+CREATE TYPE "public"."RoomAssignmentEventSource" AS ENUM ('WEB', 'OFFLINE_SYNC', 'INTEGRATION');
+
+-- CreateTable
+CREATE TABLE "public"."RoomAssignmentEvent" (
+    "id" TEXT NOT NULL,
+    "roomAssignmentId" INTEGER NOT NULL,
+    "type" "public"."RoomAssignmentEventType" NOT NULL,
+    "source" "public"."RoomAssignmentEventSource" NOT NULL,
+    "actorId" TEXT,
+    "changes" JSONB NOT NULL,
+    "version" INTEGER NOT NULL,
+    "deviceTime" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RoomAssignmentEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RoomAssignmentEvent_roomAssignmentId_createdAt_idx" ON "public"."RoomAssignmentEvent"("roomAssignmentId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."RoomAssignmentEvent" ADD CONSTRAINT "RoomAssignmentEvent_roomAssignmentId_fkey" FOREIGN KEY ("roomAssignmentId") REFERENCES "public"."RoomAssignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RoomAssignmentEvent" ADD CONSTRAINT "RoomAssignmentEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Events are never rewritten. Only the actor may be cleared, which happens
+-- when their account is removed.
+CREATE FUNCTION "public"."room_assignment_event_append_only"() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW."actorId" IS NULL AND (to_jsonb(NEW) - 'actorId') = (to_jsonb(OLD) - 'actorId') THEN
+    RETURN NEW;
+  END IF;
+  RAISE EXCEPTION 'RoomAssignmentEvent rows are append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "RoomAssignmentEvent_append_only"
+BEFORE UPDATE ON "public"."RoomAssignmentEvent"
+FOR EACH ROW EXECUTE FUNCTION "public"."room_assignment_event_append_only"();
@@ -0,0 +1,98 @@
+-- AlterEnum
+ALTER TYPE "public"."UserAuditAction" ADD VALUE 'PROPERTIES_CHANGED';
+
+-- CreateTable
+CREATE TABLE "public"."Property" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "timeZone" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Property_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."Building" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Building_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."Floor" (
+    "id" TEXT NOT NULL,
+    "buildingId" TEXT NOT NULL,
+    "level" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+
+    CONSTRAINT "Floor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."PropertyMember" (
+    "userId" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PropertyMember_pkey" PRIMARY KEY ("userId","propertyId")
+);
+
+-- Everything so far belonged to the one hotel the app modelled. Its ID is
+-- fixed so devices keep the offline data they stored before this migration.
+INSERT INTO "public"."Property" ("id", "code", "name", "updatedAt")
+VALUES ('default', 'MAIN', 'Main Property', CURRENT_TIMESTAMP);
+
+INSERT INTO "public"."PropertyMember" ("userId", "propertyId")
+SELECT "id", 'default' FROM "public"."User";
+
+-- AlterTable
+ALTER TABLE "public"."RoomAssignment" ADD COLUMN "propertyId" TEXT,
+ADD COLUMN "floorId" TEXT;
+
+UPDATE "public"."RoomAssignment" SET "propertyId" = 'default';
+
+ALTER TABLE "public"."RoomAssignment" ALTER COLUMN "propertyId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "public"."RoomAssignment_roomNumber_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Property_code_key" ON "public"."Property"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Building_propertyId_name_key" ON "public"."Building"("propertyId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Floor_buildingId_level_key" ON "public"."Floor"("buildingId", "level");
+
+-- CreateIndex
+CREATE INDEX "PropertyMember_propertyId_idx" ON "public"."PropertyMember"("propertyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoomAssignment_propertyId_roomNumber_key" ON "public"."RoomAssignment"("propertyId", "roomNumber");
+
+-- CreateIndex
+CREATE INDEX "RoomAssignment_propertyId_updatedAt_idx" ON "public"."RoomAssignment"("propertyId", "updatedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."Building" ADD CONSTRAINT "Building_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "public"."Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Floor" ADD CONSTRAINT "Floor_buildingId_fkey" FOREIGN KEY ("buildingId") REFERENCES "public"."Building"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PropertyMember" ADD CONSTRAINT "PropertyMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PropertyMember" ADD CONSTRAINT "PropertyMember_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "public"."Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RoomAssignment" ADD CONSTRAINT "RoomAssignment_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "public"."Property"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RoomAssignment" ADD CONSTRAINT "RoomAssignment_floorId_fkey" FOREIGN KEY ("floorId") REFERENCES "public"."Floor"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,74 @@
+-- AlterEnum
+ALTER TYPE "public"."RoomAssignmentEventType" ADD VALUE 'ARCHIVED';
+
+-- AlterEnum
+ALTER TYPE "public"."RoomAssignmentEventSource" ADD VALUE 'SYSTEM';
+
+-- CreateTable
+CREATE TABLE "public"."Room" (
+    "id" SERIAL NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "floorId" TEXT,
+    "number" TEXT NOT NULL,
+    "roomType" TEXT,
+    "bedType" TEXT,
+    "features" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Room_pkey" PRIMARY KEY ("id")
+);
+
+-- Every room number seen so far becomes a room of the catalog. Rooms whose
+-- assignment was deleted stay out of future days.
+INSERT INTO "public"."Room" ("propertyId", "floorId", "number", "bedType", "active", "updatedAt")
+SELECT "propertyId", "floorId", "roomNumber", "bedType", "deletedAt" IS NULL, CURRENT_TIMESTAMP
+FROM "public"."RoomAssignment";
+
+-- The current assignments belong to today in each property's time zone
+ALTER TABLE "public"."Property" ADD COLUMN "businessDate" DATE;
+
+UPDATE "public"."Property"
+SET "businessDate" = (CURRENT_TIMESTAMP AT TIME ZONE COALESCE("timeZone", NULLIF(current_setting('app.property_time_zone', true), ''), 'UTC'))::date;
+
+ALTER TABLE "public"."Property" ALTER COLUMN "businessDate" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."RoomAssignment" ADD COLUMN "roomId" INTEGER,
+ADD COLUMN "businessDate" DATE,
+ADD COLUMN "archivedAt" TIMESTAMP(3);
+
+UPDATE "public"."RoomAssignment" AS a
+SET "roomId" = r."id", "businessDate" = p."businessDate"
+FROM "public"."Room" AS r, "public"."Property" AS p
+WHERE r."propertyId" = a."propertyId" AND r."number" = a."roomNumber" AND p."id" = a."propertyId";
+
+ALTER TABLE "public"."RoomAssignment" ALTER COLUMN "roomId" SET NOT NULL,
+ALTER COLUMN "businessDate" SET NOT NULL;
+
+-- The floor now belongs to the room
+ALTER TABLE "public"."RoomAssignment" DROP CONSTRAINT "RoomAssignment_floorId_fkey";
+
+ALTER TABLE "public"."RoomAssignment" DROP COLUMN "floorId";
+
+-- DropIndex
+DROP INDEX "public"."RoomAssignment_propertyId_roomNumber_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Room_propertyId_number_key" ON "public"."Room"("propertyId", "number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoomAssignment_roomId_businessDate_key" ON "public"."RoomAssignment"("roomId", "businessDate");
+
+-- CreateIndex
+CREATE INDEX "RoomAssignment_propertyId_businessDate_idx" ON "public"."RoomAssignment"("propertyId", "businessDate");
+
+-- AddForeignKey
+ALTER TABLE "public"."Room" ADD CONSTRAINT "Room_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "public"."Property"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Room" ADD CONSTRAINT "Room_floorId_fkey" FOREIGN KEY ("floorId") REFERENCES "public"."Floor"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RoomAssignment" ADD CONSTRAINT "RoomAssignment_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "public"."Room"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- Stored responses were keyed globally and cannot be attributed to a caller
+DELETE FROM "public"."ProcessedMutation";
+
+-- AlterTable
+ALTER TABLE "public"."ProcessedMutation" DROP CONSTRAINT "ProcessedMutation_pkey",
+ADD COLUMN     "propertyId" TEXT NOT NULL,
+ADD COLUMN     "userId" TEXT NOT NULL,
+ALTER COLUMN "statusCode" DROP NOT NULL,
+ALTER COLUMN "response" DROP NOT NULL,
+ADD CONSTRAINT "ProcessedMutation_pkey" PRIMARY KEY ("userId", "propertyId", "key");
@@ -0,0 +1,15 @@
+-- Events are never deleted on their own. They go only with their room
+-- assignment, through the foreign key cascade, which runs once the
+-- assignment row is already gone.
+CREATE FUNCTION "public"."room_assignment_event_no_delete"() RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM "public"."RoomAssignment" WHERE "id" = OLD."roomAssignmentId") THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'RoomAssignmentEvent rows are append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "RoomAssignmentEvent_no_delete"
+BEFORE DELETE ON "public"."RoomAssignmentEvent"
+FOR EACH ROW EXECUTE FUNCTION "public"."room_assignment_event_no_delete"();
@@ -1,5 +1,6 @@
 import { PrismaClient } from '../src/generated/prisma';
-import { RoomAssignmentStatus, RoomAssignmentPriority, RoomOccupancy, ServiceStatus } from '../src/generated/prisma';
+import { CleaningServiceType, RoomAssignmentStatus, RoomAssignmentPriority, RoomOccupancy, ServiceStatus } from '../src/generated/prisma';
+import { atPropertyTime, propertyBusinessDate } from '../src/lib/property-time';
 
 const prisma = new PrismaClient();
 
@@ -8,7 +9,38 @@ async function main() {
 
   // Clear existing data
   await prisma.roomAssignment.deleteMany();
-  console.log('🗑️  Cleared existing room assignments');
+  await prisma.room.deleteMany();
+  console.log('🗑️  Cleared existing rooms and room assignments');
+
+  // The property every room belonged to before there were several
+  // The seeded assignments are today's
+  const businessDate = propertyBusinessDate();
+  const property = await prisma.property.upsert({
+    where: { id: 'default' },
+    update: { businessDate },
+    create: { id: 'default', code: 'MAIN', name: 'Main Property', businessDate },
+  });
+
+  await prisma.building.deleteMany({ where: { propertyId: property.id } });
+  const building = await prisma.building.create({
+    data: {
+      propertyId: property.id,
+      name: 'Main Building',
+      floors: { create: [1, 2, 3, 4].map((level) => ({ level, name: String(level) })) },
+    },
+    include: { floors: true },
+  });
+
+  // Existing accounts keep working in it
+  const users = await prisma.user.findMany({ select: { id: true } });
+  await prisma.propertyMember.createMany({
+    data: users.map((user) => ({ userId: user.id, propertyId: property.id })),
+    skipDuplicates: true,
+  });
+  console.log(`✅ Set up property ${property.code} with ${building.floors.length} floors`);
+
+  // Times fall on the property's current day
+  const today = new Date();
 
   // Sample room assignments data
   const roomAssignments = [
@@ -17,10 +49,11 @@ async function main() {
       status: RoomAssignmentStatus.DIRTY,
       priority: RoomAssignmentPriority.HIGH,
       occupancy: RoomOccupancy.VACANT,
-      checkoutTime: '10:00 AM',
-      estimatedTime: '45 min',
+      checkoutTime: atPropertyTime(today, 10),
+      estimatedMinutes: 45,
       notes: 'Stay over full clean - John Smith',
-      guestCheckout: '10:00 AM',
+      guestCheckout: atPropertyTime(today, 10),
+      nextCheckin: atPropertyTime(today, 14),
       guestName: 'John Smith',
       bedType: 'King',
       serviceStatus: ServiceStatus.PENDING,
@@ -31,10 +64,10 @@ async function main() {
       status: RoomAssignmentStatus.DIRTY,
       priority: RoomAssignmentPriority.URGENT,
       occupancy: RoomOccupancy.OCCUPIED,
-      checkoutTime: '11:30 AM',
-      estimatedTime: '60 min',
+      checkoutTime: atPropertyTime(today, 11, 30),
+      estimatedMinutes: 60,
       notes: 'Stay over full clean - Sarah Johnson',
-      guestCheckout: '11:30 AM',
+      guestCheckout: atPropertyTime(today, 11, 30),
       guestName: 'Sarah Johnson',
       bedType: 'Queen',
       serviceStatus: ServiceStatus.IN_PROGRESS,
@@ -45,10 +78,10 @@ async function main() {
       status: RoomAssignmentStatus.DIRTY,
       priority: RoomAssignmentPriority.MEDIUM,
       occupancy: RoomOccupancy.VACANT,
-      checkoutTime: '9:15 AM',
-      estimatedTime: '45 min',
+      checkoutTime: atPropertyTime(today, 9, 15),
+      estimatedMinutes: 45,
       notes: 'Stay over full clean',
-      guestCheckout: '9:15 AM',
+      guestCheckout: atPropertyTime(today, 9, 15),
       guestName: null,
       bedType: 'Double',
       serviceStatus: ServiceStatus.PENDING,
@@ -59,10 +92,11 @@ async function main() {
       status: RoomAssignmentStatus.DIRTY,
       priority: RoomAssignmentPriority.HIGH,
       occupancy: RoomOccupancy.VACANT,
-      checkoutTime: '10:45 AM',
-      estimatedTime: '50 min',
+      checkoutTime: atPropertyTime(today, 10, 45),
+      estimatedMinutes: 50,
       notes: 'Departure clean - Michael Brown',
-      guestCheckout: '10:45 AM',
+      guestCheckout: atPropertyTime(today, 10, 45),
+      nextCheckin: atPropertyTime(today, 15),
       guestName: 'Michael Brown',
       bedType: 'King',
       serviceStatus: ServiceStatus.PENDING,
@@ -73,10 +107,10 @@ async function main() {
       status: RoomAssignmentStatus.INSPECTED,
       priority: RoomAssignmentPriority.LOW,
       occupancy: RoomOccupancy.VACANT,
-      checkoutTime: '8:30 AM',
-      estimatedTime: '15 min',
+      checkoutTime: atPropertyTime(today, 8, 30),
+      estimatedMinutes: 15,
       notes: 'Departure clean - Ready for guest',
-      guestCheckout: '8:30 AM',
+      guestCheckout: atPropertyTime(today, 8, 30),
       guestName: null,
       bedType: 'Queen',
       serviceStatus: ServiceStatus.COMPLETE,
@@ -87,10 +121,11 @@ async function main() {
       status: RoomAssignmentStatus.DIRTY,
       priority: RoomAssignmentPriority.MEDIUM,
       occupancy: RoomOccupancy.VACANT,
-      checkoutTime: '11:00 AM',
-      estimatedTime: '45 min',
+      checkoutTime: atPropertyTime(today, 11),
+      estimatedMinutes: 45,
       notes: 'Departure clean - Emily Davis',
-      guestCheckout: '11:00 AM',
+      guestCheckout: atPropertyTime(today, 11),
+      nextCheckin: atPropertyTime(today, 14, 30),
       guestName: 'Emily Davis',
       bedType: 'Double',
       serviceStatus: ServiceStatus.PENDING,
@@ -101,10 +136,10 @@ async function main() {
       status: RoomAssignmentStatus.DIRTY,
       priority: RoomAssignmentPriority.HIGH,
       occupancy: RoomOccupancy.VACANT,
-      checkoutTime: '9:45 AM',
-      estimatedTime: '50 min',
+      checkoutTime: atPropertyTime(today, 9, 45),
+      estimatedMinutes: 50,
       notes: 'Departure clean',
-      guestCheckout: '9:45 AM',
+      guestCheckout: atPropertyTime(today, 9, 45),
       guestName: null,
       bedType: 'King',
       serviceStatus: ServiceStatus.PENDING,
@@ -115,10 +150,10 @@ async function main() {
       status: RoomAssignmentStatus.CLEAN,
       priority: RoomAssignmentPriority.LOW,
       occupancy: RoomOccupancy.OCCUPIED,
-      checkoutTime: '10:15 AM',
-      estimatedTime: '10 min',
+      checkoutTime: atPropertyTime(today, 10, 15),
+      estimatedMinutes: 10,
       notes: 'Stay over full clean - Robert Wilson',
-      guestCheckout: '10:15 AM',
+      guestCheckout: atPropertyTime(today, 10, 15),
       guestName: 'Robert Wilson',
       bedType: 'Queen',
       serviceStatus: ServiceStatus.COMPLETE,
@@ -129,10 +164,11 @@ async function main() {
       status: RoomAssignmentStatus.DIRTY,
       priority: RoomAssignmentPriority.URGENT,
       occupancy: RoomOccupancy.VACANT,
-      checkoutTime: '8:00 AM',
-      estimatedTime: '55 min',
+      checkoutTime: atPropertyTime(today, 8),
+      estimatedMinutes: 55,
       notes: 'VIP guest arriving soon - priority clean',
-      guestCheckout: '8:00 AM',
+      guestCheckout: atPropertyTime(today, 8),
+      nextCheckin: atPropertyTime(today, 13),
       guestName: 'VIP Guest',
       bedType: 'Suite',
       serviceStatus: ServiceStatus.PENDING,
@@ -143,10 +179,10 @@ async function main() {
       status: RoomAssignmentStatus.CLEAN,
       priority: RoomAssignmentPriority.MEDIUM,
       occupancy: RoomOccupancy.VACANT,
-      checkoutTime: '9:30 AM',
-      estimatedTime: '20 min',
+      checkoutTime: atPropertyTime(today, 9, 30),
+      estimatedMinutes: 20,
       notes: 'Final inspection needed',
-      guestCheckout: '9:30 AM',
+      guestCheckout: atPropertyTime(today, 9, 30),
       guestName: null,
       bedType: 'King',
       serviceStatus: ServiceStatus.IN_PROGRESS,
@@ -154,14 +190,83 @@ async function main() {
     },
   ];
 
-  // Create room assignments
+  // Create the catalog rooms and today's assignments of them
   for (const roomData of roomAssignments) {
+    // Room 101 is on floor 1
+    const floor = building.floors.find((f) => String(f.level) === roomData.roomNumber.slice(0, -2));
+    const room = await prisma.room.create({
+      data: {
+        propertyId: property.id,
+        floorId: floor?.id,
+        number: roomData.roomNumber,
+        bedType: roomData.bedType,
+      },
+    });
     await prisma.roomAssignment.create({
-      data: roomData,
+      data: { ...roomData, propertyId: property.id, roomId: room.id, businessDate },
     });
   }
 
-  console.log(`✅ Created ${roomAssignments.length} room assignments`);
+  console.log(`✅ Created ${roomAssignments.length} rooms with today's assignments`);
+
+  // Default inspection checklist for rooms without a type-specific one
+  await prisma.inspectionTemplate.deleteMany();
+  await prisma.inspectionTemplate.create({
+    data: {
+      name: 'Standard room inspection',
+      passingScore: 80,
+      items: {
+        create: [
+          { label: 'Bed made, linen clean and unstained', weight: 3, critical: true, position: 0 },
+          { label: 'Bathroom clean: toilet, shower, sink, mirror', weight: 3, critical: true, position: 1 },
+          { label: 'Floors vacuumed / mopped', weight: 2, position: 2 },
+          { label: 'Surfaces dusted', weight: 1, position: 3 },
+          { label: 'Amenities and towels restocked', weight: 2, position: 4 },
+          { label: 'Trash emptied', weight: 1, position: 5 },
+          { label: 'Lights, TV and AC working', weight: 1, position: 6 },
+        ],
+      },
+    },
+  });
+  console.log('✅ Created default inspection template');
+
+  // Default cleaning checklist per service type
+  const cleaningChecklists = [
+    {
+      serviceType: CleaningServiceType.DEPARTURE,
+      name: 'Departure clean',
+      steps: ['Strip and remake bed', 'Clean bathroom', 'Restock amenities and towels', 'Dust surfaces', 'Vacuum / mop floors', 'Empty trash', 'Check minibar and lost property'],
+    },
+    {
+      serviceType: CleaningServiceType.STAY_OVER,
+      name: 'Stay-over service',
+      steps: ['Make bed', 'Tidy bathroom and replace used towels', 'Restock amenities', 'Empty trash'],
+    },
+    {
+      serviceType: CleaningServiceType.TURNDOWN,
+      name: 'Turndown',
+      steps: ['Turn down bed', 'Draw curtains', 'Replace used towels', 'Place amenity on pillow'],
+    },
+    {
+      serviceType: CleaningServiceType.DEEP_CLEAN,
+      name: 'Deep clean',
+      steps: ['Strip and remake bed', 'Flip / rotate mattress', 'Descale bathroom fixtures', 'Clean windows and mirrors', 'Dust vents and high surfaces', 'Vacuum under furniture', 'Wipe walls and switches', 'Empty trash'],
+    },
+  ];
+
+  await prisma.cleaningChecklistTemplate.deleteMany();
+  for (const checklist of cleaningChecklists) {
+    await prisma.cleaningChecklistTemplate.create({
+      data: {
+        serviceType: checklist.serviceType,
+        name: checklist.name,
+        steps: {
+          create: checklist.steps.map((label, position) => ({ label, position })),
+        },
+      },
+    });
+  }
+  console.log(`✅ Created ${cleaningChecklists.length} cleaning checklists`);
   console.log('🎉 Database seeding completed successfully!');
 }
 
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { CleaningChecklistService, CleaningChecklistNotFoundError } from "@/lib/services/cleaning-checklist.service";
+import { notFound, errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { UserRole } from "@/lib/roles";
+import { UpdateCleaningChecklistSchema } from "@/types/checklist";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (auth.response) return auth.response;
+
+  try {
+    const { id } = await params;
+    const template = await CleaningChecklistService.getTemplate(id);
+    return NextResponse.json(template);
+  } catch (error) {
+    if (error instanceof CleaningChecklistNotFoundError) {
+      return notFound(error.message);
+    }
+
+    return errorResponse(error, "Failed to fetch cleaning checklist");
+  }
+}
+
+/**
+ * Update a checklist; set `active: false` to retire it
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, UserRole.MANAGER);
+  if (auth.response) return auth.response;
+
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const data = UpdateCleaningChecklistSchema.parse(body);
+    const template = await CleaningChecklistService.updateTemplate(id, data);
+    return NextResponse.json(template);
+  } catch (error) {
+    if (error instanceof CleaningChecklistNotFoundError) {
+      return notFound(error.message);
+    }
+
+    return errorResponse(error, "Failed to update cleaning checklist");
+  }
+}
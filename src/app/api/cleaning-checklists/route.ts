@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { CleaningChecklistService } from "@/lib/services/cleaning-checklist.service";
+import { errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { UserRole } from "@/lib/roles";
+import { CreateCleaningChecklistSchema } from "@/types/checklist";
+
+/**
+ * Any signed-in user may read checklists: attendants cache them to work offline
+ */
+export async function GET(request: Request) {
+  const auth = await requireAuth(request);
+  if (auth.response) return auth.response;
+
+  try {
+    const includeInactive = new URL(request.url).searchParams.get("includeInactive") === "true";
+    const templates = await CleaningChecklistService.listTemplates(includeInactive);
+    return NextResponse.json(templates);
+  } catch (error) {
+    return errorResponse(error, "Failed to fetch cleaning checklists");
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireAuth(request, UserRole.MANAGER);
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const data = CreateCleaningChecklistSchema.parse(body);
+    const template = await CleaningChecklistService.createTemplate(data);
+    return NextResponse.json(template, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, "Failed to create cleaning checklist");
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { DayRolloverService } from "@/lib/services/day-rollover.service";
+import { errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { UserRole } from "@/lib/roles";
+import { DayRolloverSchema } from "@/types/property";
+
+/**
+ * Open the next business day. Meant for a scheduler calling with an admin
+ * API token shortly after midnight; properties already on the day are
+ * skipped, so calling it again is harmless.
+ */
+export async function POST(request: Request) {
+  const auth = await requireAuth(request, UserRole.ADMIN);
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const options = DayRolloverSchema.parse(body ?? {});
+    const results = await DayRolloverService.rollOver(options);
+    return NextResponse.json(results);
+  } catch (error) {
+    return errorResponse(error, "Failed to roll over business day");
+  }
+}
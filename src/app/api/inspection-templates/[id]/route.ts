@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { InspectionService, InspectionTemplateNotFoundError } from "@/lib/services/inspection.service";
+import { notFound, errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { UserRole } from "@/lib/roles";
+import { UpdateInspectionTemplateSchema } from "@/types/inspection";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, UserRole.SUPERVISOR);
+  if (auth.response) return auth.response;
+
+  try {
+    const { id } = await params;
+    const template = await InspectionService.getTemplate(id);
+    return NextResponse.json(template);
+  } catch (error) {
+    if (error instanceof InspectionTemplateNotFoundError) {
+      return notFound(error.message);
+    }
+
+    return errorResponse(error, "Failed to fetch inspection template");
+  }
+}
+
+/**
+ * Update a template; set `active: false` to retire it
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, UserRole.MANAGER);
+  if (auth.response) return auth.response;
+
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const data = UpdateInspectionTemplateSchema.parse(body);
+    const template = await InspectionService.updateTemplate(id, data);
+    return NextResponse.json(template);
+  } catch (error) {
+    if (error instanceof InspectionTemplateNotFoundError) {
+      return notFound(error.message);
+    }
+
+    return errorResponse(error, "Failed to update inspection template");
+  }
+}
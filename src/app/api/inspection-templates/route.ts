@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { InspectionService } from "@/lib/services/inspection.service";
+import { errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { UserRole } from "@/lib/roles";
+import { CreateInspectionTemplateSchema } from "@/types/inspection";
+
+export async function GET(request: Request) {
+  const auth = await requireAuth(request, UserRole.SUPERVISOR);
+  if (auth.response) return auth.response;
+
+  try {
+    const includeInactive = new URL(request.url).searchParams.get("includeInactive") === "true";
+    const templates = await InspectionService.listTemplates(includeInactive);
+    return NextResponse.json(templates);
+  } catch (error) {
+    return errorResponse(error, "Failed to fetch inspection templates");
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireAuth(request, UserRole.MANAGER);
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const data = CreateInspectionTemplateSchema.parse(body);
+    const template = await InspectionService.createTemplate(data);
+    return NextResponse.json(template, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, "Failed to create inspection template");
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { PropertyService, PropertyCodeTakenError } from "@/lib/services/property.service";
+import { conflict, errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { UserRole } from "@/lib/roles";
+import { CreatePropertySchema } from "@/types/property";
+
+/**
+ * Properties the caller works at, for the dashboard switcher
+ */
+export async function GET(request: Request) {
+  const auth = await requireAuth(request);
+  if (auth.response) return auth.response;
+
+  try {
+    const properties = await PropertyService.listProperties(auth.user);
+    return NextResponse.json(properties);
+  } catch (error) {
+    return errorResponse(error, "Failed to fetch properties");
+  }
+}
+
+/**
+ * Create a property with its buildings and floors
+ */
+export async function POST(request: Request) {
+  const auth = await requireAuth(request, UserRole.ADMIN);
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const data = CreatePropertySchema.parse(body);
+    const property = await PropertyService.createProperty(auth.user.id, data);
+    return NextResponse.json(property, { status: 201 });
+  } catch (error) {
+    if (error instanceof PropertyCodeTakenError) {
+      return conflict(error.message);
+    }
+
+    return errorResponse(error, "Failed to create property");
+  }
+}
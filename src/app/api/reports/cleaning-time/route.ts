@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { CleaningTimeService } from "@/lib/services/cleaning-time.service";
+import { errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { requireProperty } from "@/lib/property-guard";
+import { UserRole } from "@/lib/roles";
+import { CleaningTimeReportQuerySchema } from "@/types/timer";
+
+/**
+ * Actual vs. estimated cleaning minutes, per room and per attendant.
+ * `from` and `to` default to today.
+ */
+export async function GET(request: Request) {
+  const auth = await requireAuth(request, UserRole.SUPERVISOR);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  try {
+    const searchParams = new URL(request.url).searchParams;
+    const query = CleaningTimeReportQuerySchema.parse({
+      from: searchParams.get("from") ?? undefined,
+      to: searchParams.get("to") ?? undefined,
+      attendantId: searchParams.get("attendantId") ?? undefined,
+    });
+
+    const report = await CleaningTimeService.getReport(scope.propertyId, query);
+    return NextResponse.json(report);
+  } catch (error) {
+    return errorResponse(error, "Failed to build cleaning time report");
+  }
+}
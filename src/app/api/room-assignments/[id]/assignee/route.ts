@@ -0,0 +1,131 @@
+import { NextResponse } from "next/server";
+import {
+  RoomAssignmentService,
+  RoomChangeOptions,
+  RoomAssignmentConflictError,
+  RoomAssigneeError,
+  RoomAssignmentNotFoundError,
+} from "@/lib/services/room-assignment.service";
+import { badRequest, validationFailed, notFound, conflict, errorResponse } from "@/lib/api-errors";
+import { parseIfMatch, toETag } from "@/lib/etag";
+import { withIdempotency } from "@/lib/idempotency";
+import { requireAuth } from "@/lib/auth-guard";
+import { requireProperty } from "@/lib/property-guard";
+import { UserRole } from "@/lib/roles";
+import { changeSourceOf } from "@/lib/change-source";
+import { AssignRoomSchema } from "@/types/room";
+
+/**
+ * Who the room has been assigned to over time, newest first
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  try {
+    const { id: idParam } = await params;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return badRequest("Invalid room assignment ID");
+    }
+
+    const history = await RoomAssignmentService.getAssigneeHistory(id, scope.propertyId);
+    return NextResponse.json(history);
+  } catch (error) {
+    return errorResponse(error, "Failed to fetch assignee history");
+  }
+}
+
+/**
+ * Assign the room to `userId`, or hand it over when it already has someone
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, UserRole.SUPERVISOR);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  const origin = changeSourceOf(request, auth.user);
+  if (!origin) {
+    return badRequest("Invalid X-Device-Time header");
+  }
+
+  return withIdempotency(request, { userId: auth.user.id, propertyId: scope.propertyId }, async () => {
+    const body = AssignRoomSchema.safeParse(await request.json().catch(() => null));
+    if (!body.success) {
+      return validationFailed(body.error);
+    }
+
+    return assignRoom(request, params, body.data.userId, { actor: auth.user, origin, propertyId: scope.propertyId });
+  });
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, UserRole.SUPERVISOR);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  const origin = changeSourceOf(request, auth.user);
+  if (!origin) {
+    return badRequest("Invalid X-Device-Time header");
+  }
+
+  return withIdempotency(request, { userId: auth.user.id, propertyId: scope.propertyId }, () => assignRoom(request, params, null, { actor: auth.user, origin, propertyId: scope.propertyId }));
+}
+
+async function assignRoom(
+  request: Request,
+  params: Promise<{ id: string }>,
+  userId: string | null,
+  options: RoomChangeOptions
+) {
+  try {
+    const { id: idParam } = await params;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return badRequest("Invalid room assignment ID");
+    }
+
+    const expectedVersion = parseIfMatch(request.headers.get("If-Match"));
+    if (expectedVersion === null) {
+      return badRequest("Invalid If-Match header");
+    }
+
+    const assignment = await RoomAssignmentService.assignRoom(id, userId, { ...options, expectedVersion });
+    return NextResponse.json(assignment, {
+      headers: { ETag: toETag(assignment.version) },
+    });
+  } catch (error) {
+    if (error instanceof RoomAssignmentNotFoundError) {
+      return notFound(error.message);
+    }
+
+    if (error instanceof RoomAssignmentConflictError) {
+      return conflict("Room assignment was modified by someone else", {
+        extra: { current: error.current },
+        headers: { ETag: toETag(error.current.version) },
+      });
+    }
+
+    if (error instanceof RoomAssigneeError) {
+      return badRequest(error.message);
+    }
+
+    return errorResponse(error, "Failed to assign room");
+  }
+}
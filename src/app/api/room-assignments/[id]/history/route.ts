@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { RoomAssignmentService } from "@/lib/services/room-assignment.service";
+import { badRequest, errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { requireProperty } from "@/lib/property-guard";
+
+/**
+ * Every change made to the room, newest first
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  try {
+    const { id: idParam } = await params;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return badRequest("Invalid room assignment ID");
+    }
+
+    const history = await RoomAssignmentService.getHistory(id, scope.propertyId);
+    return NextResponse.json(history);
+  } catch (error) {
+    return errorResponse(error, "Failed to fetch room assignment history");
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { InspectionService, InspectionTemplateNotFoundError } from "@/lib/services/inspection.service";
+import { RoomAssignmentNotFoundError } from "@/lib/services/room-assignment.service";
+import { badRequest, notFound, errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { requireProperty } from "@/lib/property-guard";
+import { UserRole } from "@/lib/roles";
+
+/**
+ * The checklist to inspect this room with
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, UserRole.SUPERVISOR);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  try {
+    const { id: idParam } = await params;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return badRequest("Invalid room assignment ID");
+    }
+
+    const template = await InspectionService.getTemplateForRoom(id, scope.propertyId);
+    return NextResponse.json(template);
+  } catch (error) {
+    if (error instanceof InspectionTemplateNotFoundError || error instanceof RoomAssignmentNotFoundError) {
+      return notFound(error.message);
+    }
+
+    return errorResponse(error, "Failed to fetch inspection template");
+  }
+}
@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import {
+  InspectionService,
+  InspectionResultsError,
+  InspectionTemplateNotFoundError,
+} from "@/lib/services/inspection.service";
+import {
+  RoomAssignmentActor,
+  RoomAssignmentConflictError,
+  RoomAssignmentForbiddenError,
+  RoomAssignmentNotFoundError,
+} from "@/lib/services/room-assignment.service";
+import { badRequest, notFound, conflict, errorResponse } from "@/lib/api-errors";
+import { parseIfMatch, toETag } from "@/lib/etag";
+import { withIdempotency } from "@/lib/idempotency";
+import { requireAuth } from "@/lib/auth-guard";
+import { requireProperty } from "@/lib/property-guard";
+import { forbidden } from "@/lib/auth-errors";
+import { UserRole } from "@/lib/roles";
+import { RecordInspectionSchema } from "@/types/inspection";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  try {
+    const { id: idParam } = await params;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return badRequest("Invalid room assignment ID");
+    }
+
+    const inspections = await InspectionService.getInspections(id, scope.propertyId);
+    return NextResponse.json(inspections);
+  } catch (error) {
+    return errorResponse(error, "Failed to fetch inspections");
+  }
+}
+
+/**
+ * Record an inspection. The response carries the inspection and the room as
+ * it stands afterwards: INSPECTED on a pass, back to DIRTY on a fail.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, UserRole.SUPERVISOR);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  return withIdempotency(request, { userId: auth.user.id, propertyId: scope.propertyId }, () => recordInspection(request, params, auth.user, scope.propertyId));
+}
+
+async function recordInspection(
+  request: Request,
+  params: Promise<{ id: string }>,
+  actor: RoomAssignmentActor,
+  propertyId: string
+) {
+  try {
+    const { id: idParam } = await params;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return badRequest("Invalid room assignment ID");
+    }
+
+    const expectedVersion = parseIfMatch(request.headers.get("If-Match"));
+    if (expectedVersion === null) {
+      return badRequest("Invalid If-Match header");
+    }
+
+    const body = await request.json().catch(() => null);
+    const data = RecordInspectionSchema.parse(body);
+    const result = await InspectionService.recordInspection(id, data, actor, propertyId, expectedVersion);
+
+    return NextResponse.json(result, {
+      status: 201,
+      headers: { ETag: toETag(result.assignment.version) },
+    });
+  } catch (error) {
+    if (error instanceof InspectionResultsError) {
+      return badRequest(error.message);
+    }
+
+    if (error instanceof InspectionTemplateNotFoundError || error instanceof RoomAssignmentNotFoundError) {
+      return notFound(error.message);
+    }
+
+    if (error instanceof RoomAssignmentConflictError) {
+      return conflict("Room assignment was modified by someone else", {
+        extra: { current: error.current },
+        headers: { ETag: toETag(error.current.version) },
+      });
+    }
+
+    if (error instanceof RoomAssignmentForbiddenError) {
+      return forbidden(error.message);
+    }
+
+    return errorResponse(error, "Failed to record inspection");
+  }
+}
@@ -1,36 +1,82 @@
 import { NextResponse } from "next/server";
-import { RoomAssignmentService } from "@/lib/services/room-assignment.service";
+import {
+  RoomAssignmentService,
+  RoomChangeOptions,
+  RoomAssignmentConflictError,
+  RoomAssignmentForbiddenError,
+  RoomAssigneeError,
+  RoomAssignmentNotFoundError,
+} from "@/lib/services/room-assignment.service";
+import { badRequest, notFound, conflict, errorResponse } from "@/lib/api-errors";
+import { parseIfMatch, toETag } from "@/lib/etag";
+import { withIdempotency } from "@/lib/idempotency";
+import { requireAuth } from "@/lib/auth-guard";
+import { requireProperty } from "@/lib/property-guard";
+import { forbidden } from "@/lib/auth-errors";
+import { UserRole } from "@/lib/roles";
+import { UpdateRoomAssignmentBodySchema } from "@/types/room";
+import { changeSourceOf } from "@/lib/change-source";
 
 export async function PUT(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireAuth(request);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  const origin = changeSourceOf(request, auth.user);
+  if (!origin) {
+    return badRequest("Invalid X-Device-Time header");
+  }
+
+  return withIdempotency(request, { userId: auth.user.id, propertyId: scope.propertyId }, () => updateRoomAssignment(request, params, { actor: auth.user, origin, propertyId: scope.propertyId }));
+}
+
+async function updateRoomAssignment(request: Request, params: Promise<{ id: string }>, options: RoomChangeOptions) {
   try {
     const { id: idParam } = await params;
     const id = parseInt(idParam, 10);
     if (isNaN(id)) {
-      return NextResponse.json({ error: "Invalid room assignment ID" }, { status: 400 });
+      return badRequest("Invalid room assignment ID");
+    }
+
+    const expectedVersion = parseIfMatch(request.headers.get("If-Match"));
+    if (expectedVersion === null) {
+      return badRequest("Invalid If-Match header");
     }
 
     const body = await request.json().catch(() => null);
-    if (!body) {
-      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    const updateData = UpdateRoomAssignmentBodySchema.parse(body);
+
+    const updatedAssignment = await RoomAssignmentService.updateAssignment(id, updateData, { ...options, expectedVersion });
+    return NextResponse.json(updatedAssignment, {
+      headers: { ETag: toETag(updatedAssignment.version) },
+    });
+  } catch (error) {
+    if (error instanceof RoomAssignmentNotFoundError) {
+      return notFound(error.message);
     }
 
-    // Transform the data to match database schema
-    const updateData = { ...body };
-    
-    // Map housekeepingNote to notes if present
-    if (updateData.housekeepingNote !== undefined) {
-      updateData.notes = updateData.housekeepingNote;
-      delete updateData.housekeepingNote;
+    if (error instanceof RoomAssignmentConflictError) {
+      // Hand back the current row so the client can merge against it
+      return conflict("Room assignment was modified by someone else", {
+        extra: { current: error.current },
+        headers: { ETag: toETag(error.current.version) },
+      });
     }
 
-    const updatedAssignment = await RoomAssignmentService.updateAssignment(id, updateData);
-    return NextResponse.json(updatedAssignment);
-  } catch (error) {
-    const message = error instanceof Error ? error.message : "Failed to update room assignment";
-    return NextResponse.json({ error: message }, { status: 500 });
+    if (error instanceof RoomAssignmentForbiddenError) {
+      return forbidden(error.message);
+    }
+
+    if (error instanceof RoomAssigneeError) {
+      return badRequest(error.message);
+    }
+
+    return errorResponse(error, "Failed to update room assignment");
   }
 }
 
@@ -46,22 +92,33 @@ export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireAuth(request);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
   try {
     const { id: idParam } = await params;
     const id = parseInt(idParam, 10);
     if (isNaN(id)) {
-      return NextResponse.json({ error: "Invalid room assignment ID" }, { status: 400 });
+      return badRequest("Invalid room assignment ID");
     }
 
-    const assignment = await RoomAssignmentService.getAssignmentById(id);
+    const assignment = await RoomAssignmentService.getAssignmentById(id, scope.propertyId);
     if (!assignment) {
-      return NextResponse.json({ error: "Room assignment not found" }, { status: 404 });
+      return notFound("Room assignment not found");
     }
 
-    return NextResponse.json(assignment);
+    return NextResponse.json(assignment, {
+      headers: { ETag: toETag(assignment.version) },
+    });
   } catch (error) {
-    const message = error instanceof Error ? error.message : "Failed to fetch room assignment";
-    return NextResponse.json({ error: message }, { status: 500 });
+    if (error instanceof RoomAssignmentNotFoundError) {
+      return notFound(error.message);
+    }
+
+    return errorResponse(error, "Failed to fetch room assignment");
   }
 }
 
@@ -69,17 +126,35 @@ export async function DELETE(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireAuth(request, UserRole.SUPERVISOR);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  const origin = changeSourceOf(request, auth.user);
+  if (!origin) {
+    return badRequest("Invalid X-Device-Time header");
+  }
+
+  return withIdempotency(request, { userId: auth.user.id, propertyId: scope.propertyId }, () => deleteRoomAssignment(params, { actor: auth.user, origin, propertyId: scope.propertyId }));
+}
+
+async function deleteRoomAssignment(params: Promise<{ id: string }>, options: RoomChangeOptions) {
   try {
     const { id: idParam } = await params;
     const id = parseInt(idParam, 10);
     if (isNaN(id)) {
-      return NextResponse.json({ error: "Invalid room assignment ID" }, { status: 400 });
+      return badRequest("Invalid room assignment ID");
     }
 
-    await RoomAssignmentService.deleteAssignment(id);
+    await RoomAssignmentService.deleteAssignment(id, options);
     return NextResponse.json({ message: "Room assignment deleted successfully" });
   } catch (error) {
-    const message = error instanceof Error ? error.message : "Failed to delete room assignment";
-    return NextResponse.json({ error: message }, { status: 500 });
+    if (error instanceof RoomAssignmentNotFoundError) {
+      return notFound(error.message);
+    }
+
+    return errorResponse(error, "Failed to delete room assignment");
   }
 }
\ No newline at end of file
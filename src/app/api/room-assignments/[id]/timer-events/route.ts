@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { CleaningTimeService, CleaningTimerRoomNotFoundError } from "@/lib/services/cleaning-time.service";
+import { RoomAssignmentActor, RoomAssignmentForbiddenError } from "@/lib/services/room-assignment.service";
+import { badRequest, notFound, errorResponse } from "@/lib/api-errors";
+import { withIdempotency } from "@/lib/idempotency";
+import { requireAuth } from "@/lib/auth-guard";
+import { requireProperty } from "@/lib/property-guard";
+import { forbidden } from "@/lib/auth-errors";
+import { RecordTimerEventsSchema } from "@/types/timer";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  try {
+    const { id: idParam } = await params;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return badRequest("Invalid room assignment ID");
+    }
+
+    const events = await CleaningTimeService.getEvents(id, scope.propertyId);
+    return NextResponse.json(events);
+  } catch (error) {
+    return errorResponse(error, "Failed to fetch timer events");
+  }
+}
+
+/**
+ * Record start/pause/resume/finish events. Answers with every event of the
+ * room so the device can replace its copy.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  return withIdempotency(request, { userId: auth.user.id, propertyId: scope.propertyId }, () => recordTimerEvents(request, params, auth.user, scope.propertyId));
+}
+
+async function recordTimerEvents(
+  request: Request,
+  params: Promise<{ id: string }>,
+  actor: RoomAssignmentActor,
+  propertyId: string
+) {
+  try {
+    const { id: idParam } = await params;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return badRequest("Invalid room assignment ID");
+    }
+
+    const body = await request.json().catch(() => null);
+    const data = RecordTimerEventsSchema.parse(body);
+    const events = await CleaningTimeService.recordEvents(id, propertyId, data, actor);
+    return NextResponse.json(events, { status: 201 });
+  } catch (error) {
+    if (error instanceof CleaningTimerRoomNotFoundError) {
+      return notFound(error.message);
+    }
+
+    if (error instanceof RoomAssignmentForbiddenError) {
+      return forbidden(error.message);
+    }
+
+    return errorResponse(error, "Failed to record timer events");
+  }
+}
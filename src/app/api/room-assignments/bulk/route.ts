@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { RoomAssignmentService, RoomChangeOptions, BulkUpdateItem } from "@/lib/services/room-assignment.service";
+import { badRequest, errorResponse } from "@/lib/api-errors";
+import { withIdempotency } from "@/lib/idempotency";
+import { requireAuth } from "@/lib/auth-guard";
+import { requireProperty } from "@/lib/property-guard";
+import { BulkUpdateRoomAssignmentsSchema } from "@/types/room";
+import { changeSourceOf } from "@/lib/change-source";
+
+export async function PUT(request: Request) {
+  const auth = await requireAuth(request);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  const origin = changeSourceOf(request, auth.user);
+  if (!origin) {
+    return badRequest("Invalid X-Device-Time header");
+  }
+
+  // Role rules are checked per room, so attendants get a result for each item
+  return withIdempotency(request, { userId: auth.user.id, propertyId: scope.propertyId }, () =>
+    bulkUpdateRoomAssignments(request, { actor: auth.user, origin, propertyId: scope.propertyId })
+  );
+}
+
+async function bulkUpdateRoomAssignments(request: Request, options: RoomChangeOptions) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { updates, atomic } = BulkUpdateRoomAssignmentsSchema.parse(body);
+
+    const results = await RoomAssignmentService.bulkUpdate(
+      updates.map((update): BulkUpdateItem => ({
+        id: update.id,
+        data: update.data,
+        expectedVersion: update.baseVersion,
+        deviceTime: update.deviceTime ? new Date(update.deviceTime) : undefined,
+      })),
+      { ...options, atomic: atomic !== false }
+    );
+    const failed = results.filter((result) => !result.success).length;
+
+    // 207 tells callers to inspect the per-room results
+    return NextResponse.json(
+      { results, succeeded: results.length - failed, failed },
+      { status: failed > 0 ? 207 : 200 }
+    );
+  } catch (error) {
+    return errorResponse(error, "Failed to bulk update room assignments");
+  }
+}
@@ -1,62 +1,122 @@
 import { NextResponse } from "next/server";
-import { RoomAssignmentService } from "@/lib/services/room-assignment.service";
+import {
+  RoomAssignmentService,
+  RoomAssignmentActor,
+  RoomAssigneeError,
+  RoomAssignmentExistsError,
+} from "@/lib/services/room-assignment.service";
+import { RoomFloorError } from "@/lib/services/room.service";
+import { badRequest, conflict, errorResponse } from "@/lib/api-errors";
+import { withIdempotency } from "@/lib/idempotency";
+import { decodeCursor, encodeCursor } from "@/lib/sync-cursor";
+import { requireAuth } from "@/lib/auth-guard";
+import { requireProperty } from "@/lib/property-guard";
+import { UserRole } from "@/lib/roles";
+import { CreateRoomAssignmentBodySchema } from "@/types/room";
+import { ChangeSource, changeSourceOf } from "@/lib/change-source";
+
+export async function GET(request: Request) {
+  const auth = await requireAuth(request);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  const { searchParams } = new URL(request.url);
+  const cursor = searchParams.get("since");
+  const assignedTo = searchParams.get("assignedTo");
+
+  if (cursor !== null) {
+    // The feed has to report rooms handed to someone else, so it is never filtered
+    if (assignedTo !== null) {
+      return badRequest("assignedTo cannot be combined with since");
+    }
+    return getChangeFeed(scope.propertyId, cursor);
+  }
 
-export async function GET() {
   try {
-    const assignments = await RoomAssignmentService.getAllAssignments();
+    // "me" is the calling user
+    const assignments = await RoomAssignmentService.getAssignments(scope.propertyId, {
+      assignedTo: assignedTo === "me" ? auth.user.id : assignedTo ?? undefined,
+    });
     return NextResponse.json(assignments);
   } catch (error) {
-    const message = error instanceof Error ? error.message : "Failed to fetch room assignments";
-    return NextResponse.json({ error: message }, { status: 500 });
+    return errorResponse(error, "Failed to fetch room assignments");
   }
 }
 
-export async function POST(request: Request) {
-  const body = (await request.json().catch(() => null)) as {
-    roomNumber?: string;
-    status?: string;
-    priority?: string;
-    occupancy?: string;
-    checkoutTime?: string;
-    estimatedTime?: string;
-    notes?: string;
-    guestCheckout?: string;
-    nextCheckin?: string;
-    guestName?: string;
-    occupancyStatus?: string;
-    bedType?: string;
-    serviceStatus?: string;
-    assignedTo?: string;
-  } | null;
-
-  if (!body?.roomNumber) {
-    return NextResponse.json(
-      { error: "Missing required field: roomNumber" },
-      { status: 400 }
-    );
+/**
+ * Change feed for offline clients. An empty cursor returns every live room as
+ * a full snapshot; otherwise only rooms changed since the cursor, with
+ * tombstones for deleted ones. The response carries the cursor for next time.
+ */
+async function getChangeFeed(propertyId: string, cursor: string) {
+  let since: Date | undefined;
+
+  if (cursor !== "") {
+    const position = decodeCursor(cursor);
+    if (!position) {
+      return badRequest("Invalid cursor");
+    }
+    since = position;
   }
 
   try {
-    const assignment = await RoomAssignmentService.createAssignment({
-      roomNumber: body.roomNumber,
-      status: body.status as any,
-      priority: body.priority as any,
-      occupancy: body.occupancy as any,
-      checkoutTime: body.checkoutTime,
-      estimatedTime: body.estimatedTime,
-      notes: body.notes,
-      guestCheckout: body.guestCheckout,
-      nextCheckin: body.nextCheckin,
-      guestName: body.guestName,
-      occupancyStatus: body.occupancyStatus,
-      bedType: body.bedType,
-      serviceStatus: body.serviceStatus as any,
-      assignedTo: body.assignedTo,
+    const { changed, deleted, latestUpdatedAt } = await RoomAssignmentService.getChangesSince(propertyId, since);
+
+    // Rows from the overlap window can be older than the cursor; never move it back
+    let position = since ?? new Date(0);
+    if (latestUpdatedAt && latestUpdatedAt > position) {
+      position = latestUpdatedAt;
+    }
+
+    return NextResponse.json({
+      changed,
+      deleted,
+      cursor: encodeCursor(position),
+      full: !since,
     });
+  } catch (error) {
+    return errorResponse(error, "Failed to fetch room assignment changes");
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireAuth(request, UserRole.SUPERVISOR);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  const origin = changeSourceOf(request, auth.user);
+  if (!origin) {
+    return badRequest("Invalid X-Device-Time header");
+  }
+
+  return withIdempotency(request, { userId: auth.user.id, propertyId: scope.propertyId }, () => createRoomAssignment(request, scope.propertyId, auth.user, origin));
+}
+
+async function createRoomAssignment(
+  request: Request,
+  propertyId: string,
+  actor: RoomAssignmentActor,
+  origin: ChangeSource
+) {
+  try {
+    const body = await request.json().catch(() => null);
+    const data = CreateRoomAssignmentBodySchema.parse(body);
+    const assignment = await RoomAssignmentService.createAssignment({ ...data, propertyId }, { actor, origin });
 
     return NextResponse.json(assignment, { status: 201 });
   } catch (error) {
-    const message = error instanceof Error ? error.message : "Failed to create room assignment";
-    return NextResponse.json({ error: message }, { status: 500 });
+    if (error instanceof RoomAssignmentExistsError) {
+      return conflict(error.message);
+    }
+
+    if (error instanceof RoomAssigneeError || error instanceof RoomFloorError) {
+      return badRequest(error.message);
+    }
+
+    return errorResponse(error, "Failed to create room assignment");
   }
-}
\ No newline at end of file
+}
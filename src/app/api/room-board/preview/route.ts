@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { BoardGeneratorService } from "@/lib/services/board-generator.service";
+import { errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { requireProperty } from "@/lib/property-guard";
+import { UserRole } from "@/lib/roles";
+import { GenerateBoardSchema } from "@/types/board";
+
+/**
+ * Generate a board for a shift without saving it, for the supervisor to
+ * review before confirming
+ */
+export async function POST(request: Request) {
+  const auth = await requireAuth(request, UserRole.SUPERVISOR);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const options = GenerateBoardSchema.parse(body);
+    const board = await BoardGeneratorService.generateBoard(scope.propertyId, options);
+    return NextResponse.json(board);
+  } catch (error) {
+    return errorResponse(error, "Failed to generate room board");
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { BoardGeneratorService } from "@/lib/services/board-generator.service";
+import { RoomAssignmentActor } from "@/lib/services/room-assignment.service";
+import { errorResponse } from "@/lib/api-errors";
+import { withIdempotency } from "@/lib/idempotency";
+import { requireAuth } from "@/lib/auth-guard";
+import { requireProperty } from "@/lib/property-guard";
+import { UserRole } from "@/lib/roles";
+import { ApplyBoardSchema } from "@/types/board";
+
+/**
+ * Save a confirmed board: every listed room is assigned to its attendant, or
+ * none are when a room changed since the preview
+ */
+export async function POST(request: Request) {
+  const auth = await requireAuth(request, UserRole.SUPERVISOR);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  return withIdempotency(request, { userId: auth.user.id, propertyId: scope.propertyId }, () => applyBoard(request, auth.user, scope.propertyId));
+}
+
+async function applyBoard(request: Request, actor: RoomAssignmentActor, propertyId: string) {
+  try {
+    const body = await request.json().catch(() => null);
+    const board = ApplyBoardSchema.parse(body);
+    const results = await BoardGeneratorService.applyBoard(propertyId, board, actor);
+    const failed = results.filter((result) => !result.success).length;
+
+    // 207 tells callers to inspect the per-room results
+    return NextResponse.json(
+      { results, succeeded: results.length - failed, failed },
+      { status: failed > 0 ? 207 : 200 }
+    );
+  } catch (error) {
+    return errorResponse(error, "Failed to save room board");
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { RoomService, RoomNotFoundError } from "@/lib/services/room.service";
+import { badRequest, notFound, errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { requireProperty } from "@/lib/property-guard";
+import { UserRole } from "@/lib/roles";
+import { RoomDaysQuerySchema } from "@/types/property";
+
+/**
+ * The room's daily assignments of the last `days` business days (30 by
+ * default), newest first
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, UserRole.SUPERVISOR);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  try {
+    const { id: idParam } = await params;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return badRequest("Invalid room ID");
+    }
+
+    const query = RoomDaysQuerySchema.parse({
+      days: new URL(request.url).searchParams.get("days") ?? undefined,
+    });
+
+    const days = await RoomService.getDays(id, scope.propertyId, query);
+    return NextResponse.json(days);
+  } catch (error) {
+    if (error instanceof RoomNotFoundError) {
+      return notFound(error.message);
+    }
+
+    return errorResponse(error, "Failed to fetch room days");
+  }
+}
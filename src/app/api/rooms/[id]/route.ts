@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { RoomService, RoomFloorError, RoomNotFoundError } from "@/lib/services/room.service";
+import { badRequest, notFound, errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { requireProperty } from "@/lib/property-guard";
+import { UserRole } from "@/lib/roles";
+import { UpdateRoomSchema } from "@/types/property";
+
+/**
+ * Change a room's attributes; set `active: false` to take it out of service
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, UserRole.MANAGER);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  try {
+    const { id: idParam } = await params;
+    const id = parseInt(idParam, 10);
+    if (isNaN(id)) {
+      return badRequest("Invalid room ID");
+    }
+
+    const body = await request.json().catch(() => null);
+    const data = UpdateRoomSchema.parse(body);
+    const room = await RoomService.updateRoom(id, scope.propertyId, data);
+    return NextResponse.json(room);
+  } catch (error) {
+    if (error instanceof RoomNotFoundError) {
+      return notFound(error.message);
+    }
+
+    if (error instanceof RoomFloorError) {
+      return badRequest(error.message);
+    }
+
+    return errorResponse(error, "Failed to update room");
+  }
+}
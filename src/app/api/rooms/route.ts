@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { RoomService, RoomFloorError, RoomNumberTakenError } from "@/lib/services/room.service";
+import { badRequest, conflict, errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { requireProperty } from "@/lib/property-guard";
+import { UserRole } from "@/lib/roles";
+import { CreateRoomSchema } from "@/types/property";
+
+/**
+ * The property's room catalog; `?includeInactive=true` adds rooms taken out
+ * of service
+ */
+export async function GET(request: Request) {
+  const auth = await requireAuth(request);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  try {
+    const includeInactive = new URL(request.url).searchParams.get("includeInactive") === "true";
+    const rooms = await RoomService.listRooms(scope.propertyId, includeInactive);
+    return NextResponse.json(rooms);
+  } catch (error) {
+    return errorResponse(error, "Failed to fetch rooms");
+  }
+}
+
+/**
+ * Add a room to the catalog
+ */
+export async function POST(request: Request) {
+  const auth = await requireAuth(request, UserRole.MANAGER);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const data = CreateRoomSchema.parse(body);
+    const room = await RoomService.createRoom(scope.propertyId, data);
+    return NextResponse.json(room, { status: 201 });
+  } catch (error) {
+    if (error instanceof RoomFloorError) {
+      return badRequest(error.message);
+    }
+
+    if (error instanceof RoomNumberTakenError) {
+      return conflict(error.message);
+    }
+
+    return errorResponse(error, "Failed to create room");
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { UserService } from "@/lib/services/user.service";
+import { errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { requireProperty } from "@/lib/property-guard";
+import { UserRole } from "@/lib/roles";
+
+/**
+ * Housekeeping staff with their room workload, for supervisors planning the day
+ */
+export async function GET(request: Request) {
+  const auth = await requireAuth(request, UserRole.SUPERVISOR);
+  if (auth.response) return auth.response;
+
+  const scope = await requireProperty(request, auth.user);
+  if (scope.response) return scope.response;
+
+  try {
+    const staff = await UserService.getStaffOverview(scope.propertyId);
+    return NextResponse.json(staff);
+  } catch (error) {
+    return errorResponse(error, "Failed to fetch staff");
+  }
+}
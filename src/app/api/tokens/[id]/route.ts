@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { ApiTokenService, ApiTokenNotFoundError } from "@/lib/services/api-token.service";
+import { notFound, errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { UserRole } from "@/lib/roles";
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, UserRole.ADMIN);
+  if (auth.response) return auth.response;
+
+  try {
+    const { id } = await params;
+    const apiToken = await ApiTokenService.revokeToken(id);
+    return NextResponse.json(apiToken);
+  } catch (error) {
+    if (error instanceof ApiTokenNotFoundError) {
+      return notFound(error.message);
+    }
+
+    return errorResponse(error, "Failed to revoke API token");
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { ApiTokenService } from "@/lib/services/api-token.service";
+import { errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { UserRole } from "@/lib/roles";
+import { IssueApiTokenSchema } from "@/types/user";
+
+export async function GET(request: Request) {
+  const auth = await requireAuth(request, UserRole.ADMIN);
+  if (auth.response) return auth.response;
+
+  try {
+    const tokens = await ApiTokenService.listTokens();
+    return NextResponse.json(tokens);
+  } catch (error) {
+    return errorResponse(error, "Failed to fetch API tokens");
+  }
+}
+
+/**
+ * Issue a bearer token for an integration. The token acts as `userId`
+ * (the caller by default) and is returned only in this response.
+ */
+export async function POST(request: Request) {
+  const auth = await requireAuth(request, UserRole.ADMIN);
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const data = IssueApiTokenSchema.parse(body);
+    const { token, apiToken } = await ApiTokenService.issueToken({
+      name: data.name,
+      userId: data.userId ?? auth.user.id,
+      expiresAt: data.expiresInDays
+        ? new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000)
+        : undefined,
+    });
+
+    return NextResponse.json({ ...apiToken, token }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, "Failed to issue API token");
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { UserService, UserNotFoundError } from "@/lib/services/user.service";
+import { notFound, errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { UserRole } from "@/lib/roles";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, UserRole.ADMIN);
+  if (auth.response) return auth.response;
+
+  try {
+    const { id } = await params;
+    // 404 for unknown users rather than an empty trail
+    await UserService.getUser(id);
+    const entries = await UserService.getAuditEntries(id);
+    return NextResponse.json(entries);
+  } catch (error) {
+    if (error instanceof UserNotFoundError) {
+      return notFound(error.message);
+    }
+
+    return errorResponse(error, "Failed to fetch user audit entries");
+  }
+}
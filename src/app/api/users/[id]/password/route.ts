@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { UserService, UserNotFoundError } from "@/lib/services/user.service";
+import { notFound, errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { UserRole } from "@/lib/roles";
+import { ResetPasswordSchema } from "@/types/user";
+
+/**
+ * Reset a user's password. Without a password in the body a temporary one
+ * is generated and returned only in this response.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, UserRole.ADMIN);
+  if (auth.response) return auth.response;
+
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const data = ResetPasswordSchema.parse(body ?? {});
+    const { user, temporaryPassword } = await UserService.resetPassword(auth.user.id, id, data.password);
+
+    return NextResponse.json({ ...user, temporaryPassword });
+  } catch (error) {
+    if (error instanceof UserNotFoundError) {
+      return notFound(error.message);
+    }
+
+    return errorResponse(error, "Failed to reset password");
+  }
+}
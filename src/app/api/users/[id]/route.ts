@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import {
+  UserService,
+  UserNotFoundError,
+  UserPropertyError,
+  UserSelfChangeError,
+} from "@/lib/services/user.service";
+import { badRequest, notFound, errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { UserRole } from "@/lib/roles";
+import { UpdateUserSchema } from "@/types/user";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, UserRole.ADMIN);
+  if (auth.response) return auth.response;
+
+  try {
+    const { id } = await params;
+    const user = await UserService.getUser(id);
+    return NextResponse.json(user);
+  } catch (error) {
+    if (error instanceof UserNotFoundError) {
+      return notFound(error.message);
+    }
+
+    return errorResponse(error, "Failed to fetch user");
+  }
+}
+
+/**
+ * Change a user's role, shift or properties and/or deactivate or reactivate them
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth(request, UserRole.ADMIN);
+  if (auth.response) return auth.response;
+
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const data = UpdateUserSchema.parse(body);
+
+    const user = await UserService.updateUser(auth.user.id, id, data);
+    return NextResponse.json(user);
+  } catch (error) {
+    if (error instanceof UserNotFoundError) {
+      return notFound(error.message);
+    }
+
+    if (error instanceof UserSelfChangeError || error instanceof UserPropertyError) {
+      return badRequest(error.message);
+    }
+
+    return errorResponse(error, "Failed to update user");
+  }
+}
@@ -1,45 +1,56 @@
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import bcrypt from "bcryptjs";
-
-export async function GET() {
-  const users = await prisma.user.findMany({
-    orderBy: { createdAt: "desc" },
-  });
-  return NextResponse.json(users);
+import { UserService, UserEmailTakenError, UserPropertyError } from "@/lib/services/user.service";
+import { badRequest, conflict, errorResponse } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth-guard";
+import { requireProperty } from "@/lib/property-guard";
+import { UserRole } from "@/lib/roles";
+import { CreateUserSchema, ListUsersQuerySchema } from "@/types/user";
+
+export async function GET(request: Request) {
+  const auth = await requireAuth(request, UserRole.ADMIN);
+  if (auth.response) return auth.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = ListUsersQuerySchema.parse(Object.fromEntries(searchParams));
+    const users = await UserService.listUsers(query);
+    return NextResponse.json(users);
+  } catch (error) {
+    return errorResponse(error, "Failed to fetch users");
+  }
 }
 
+/**
+ * Create a user. Leaving out the password invites them instead: a temporary
+ * password is generated and returned only in this response. Without
+ * `propertyIds` the user joins the property the request acts in.
+ */
 export async function POST(request: Request) {
-  const body = (await request.json().catch(() => null)) as {
-    email?: string;
-    name?: string;
-    password?: string;
-  } | null;
-
-  if (!body?.email || !body?.password) {
-    return NextResponse.json(
-      { error: "Missing required email and password fields." },
-      { status: 400 }
-    );
-  }
+  const auth = await requireAuth(request, UserRole.ADMIN);
+  if (auth.response) return auth.response;
 
   try {
-    const hashedPassword = await bcrypt.hash(body.password, 12);
-    
-    const user = await prisma.user.create({
-      data: {
-        email: body.email,
-        name: body.name ?? null,
-        password: hashedPassword,
-      },
-    });
-    
-    // Don't return the password in the response
-    const { password, ...userWithoutPassword } = user;
-    return NextResponse.json(userWithoutPassword, { status: 201 });
+    const body = await request.json().catch(() => null);
+    const data = CreateUserSchema.parse(body);
+
+    if (!data.propertyIds) {
+      const scope = await requireProperty(request, auth.user);
+      if (scope.response) return scope.response;
+      data.propertyIds = [scope.propertyId];
+    }
+
+    const { user, temporaryPassword } = await UserService.createUser(auth.user.id, data);
+
+    return NextResponse.json({ ...user, temporaryPassword }, { status: 201 });
   } catch (error) {
-    const message =
-      error instanceof Error ? error.message : "Unable to create user";
-    return NextResponse.json({ error: message }, { status: 500 });
+    if (error instanceof UserEmailTakenError) {
+      return conflict(error.message);
+    }
+
+    if (error instanceof UserPropertyError) {
+      return badRequest(error.message);
+    }
+
+    return errorResponse(error, "Failed to create user");
   }
 }
@@ -0,0 +1,236 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { useState } from "react";
+import { toast } from "react-toastify";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { OfflineIndicator } from "@/components/ui/offline-indicator";
+import { useApplyBoard, useGenerateBoard } from "@/hooks/use-room-board";
+import { toPascalCase } from "@/lib/utils";
+import { BoardRoom, BoardTaskType, DEFAULT_TASK_CREDITS } from "@/types/board";
+import { StaffShift } from "@/types/user";
+
+const shiftOptions = [StaffShift.MORNING, StaffShift.AFTERNOON, StaffShift.NIGHT];
+const taskTypes = [BoardTaskType.DEPARTURE, BoardTaskType.STAY_OVER, BoardTaskType.VACANT];
+
+const getTaskColor = (taskType: BoardTaskType) => {
+  switch (taskType) {
+    case BoardTaskType.DEPARTURE:
+      return "bg-red-100 text-red-800 border-red-200";
+    case BoardTaskType.STAY_OVER:
+      return "bg-blue-100 text-blue-800 border-blue-200";
+    default:
+      return "bg-gray-100 text-gray-800 border-gray-200";
+  }
+};
+
+export default function GenerateBoardPage() {
+  const router = useRouter();
+  const { data: session, status } = useSession({
+    required: true,
+    onUnauthenticated() {
+      router.push("/login");
+    },
+  });
+  const [shift, setShift] = useState<StaffShift>(StaffShift.MORNING);
+  const [credits, setCredits] = useState<Record<BoardTaskType, number>>(DEFAULT_TASK_CREDITS);
+  const [reassignAll, setReassignAll] = useState(false);
+  const generateBoard = useGenerateBoard();
+  const applyBoard = useApplyBoard();
+  const board = generateBoard.data;
+
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+          <p className="mt-2 text-sm text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null; // Will redirect to login
+  }
+
+  const handleGenerate = () => {
+    generateBoard.mutate(
+      { shift, credits, reassignAll },
+      { onError: (error) => toast.error(error.message) }
+    );
+  };
+
+  const handleConfirm = () => {
+    if (!board) return;
+
+    // Rooms the attendant already holds need no write
+    const assignments = board.attendants.flatMap((load) =>
+      load.rooms
+        .filter((room) => !room.kept)
+        .map((room) => ({ roomId: room.id, userId: load.user.id, version: room.version }))
+    );
+
+    if (assignments.length === 0) {
+      toast.info("Nothing to change: every room is already assigned");
+      return;
+    }
+
+    applyBoard.mutate(
+      { assignments },
+      {
+        onSuccess: () => {
+          toast.success(`Board saved: ${assignments.length} room${assignments.length === 1 ? "" : "s"} assigned`);
+          router.push("/dashboard/board");
+        },
+        onError: (error) =>
+          toast.error(`Board not saved: ${error.message}. Generate a new preview and try again.`),
+      }
+    );
+  };
+
+  const renderRoom = (room: BoardRoom) => (
+    <div
+      key={room.id}
+      className={`px-2 py-1 rounded-full text-xs font-medium border ${getTaskColor(room.taskType)}`}
+      title={`${toPascalCase(room.taskType)} · ${room.credits} credit${room.credits === 1 ? "" : "s"}`}
+    >
+      {room.roomNumber}
+      {room.kept && " ✓"}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b sticky top-0 z-40">
+        <div className="px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link href="/dashboard/board" className="text-sm text-gray-600">
+              Board
+            </Link>
+            <h1 className="font-semibold text-gray-900">Generate Board</h1>
+            <OfflineIndicator />
+          </div>
+        </div>
+      </div>
+
+      <div className="px-2 pt-5 pb-10 space-y-4">
+        {/* Options */}
+        <Card className="py-5 shadow-sm">
+          <CardContent className="px-5 space-y-4">
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-700">Shift</h4>
+              <div className="grid grid-cols-3 gap-2">
+                {shiftOptions.map((option) => (
+                  <Button
+                    key={option}
+                    variant={shift === option ? "default" : "outline"}
+                    onClick={() => setShift(option)}
+                  >
+                    {toPascalCase(option)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-700">Credits per Task</h4>
+              <div className="grid grid-cols-3 gap-2">
+                {taskTypes.map((taskType) => (
+                  <div key={taskType} className="space-y-1">
+                    <Label htmlFor={`credits-${taskType}`} className="text-xs text-gray-600">
+                      {toPascalCase(taskType)}
+                    </Label>
+                    <Input
+                      id={`credits-${taskType}`}
+                      type="number"
+                      min={0.5}
+                      step={0.5}
+                      value={credits[taskType]}
+                      onChange={(e) =>
+                        setCredits((prev) => ({ ...prev, [taskType]: Number(e.target.value) }))
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                id="reassign-all"
+                checked={reassignAll}
+                onChange={(e) => setReassignAll(e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <Label htmlFor="reassign-all" className="text-sm font-normal cursor-pointer">
+                Redistribute rooms attendants already hold
+              </Label>
+            </div>
+
+            <Button
+              onClick={handleGenerate}
+              className="w-full"
+              disabled={generateBoard.isPending}
+            >
+              {generateBoard.isPending ? "Generating..." : "Generate Preview"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Preview */}
+        {board && (
+          <>
+            {board.attendants.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-gray-500">
+                  No active attendants on the {toPascalCase(board.shift).toLowerCase()} shift;
+                  {" "}{board.unassigned.length} room{board.unassigned.length === 1 ? "" : "s"} need service
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {board.attendants.map((load) => (
+                  <Card key={load.user.id} className="py-5 shadow-sm">
+                    <CardContent className="px-5">
+                      <div className="flex items-center justify-between mb-3">
+                        <div className="text-lg font-semibold tracking-tight text-gray-900">
+                          {load.user.name || load.user.email}
+                        </div>
+                        <div className="text-sm text-gray-600">
+                          {load.totalCredits} credits · {load.rooms.length} room{load.rooms.length === 1 ? "" : "s"}
+                        </div>
+                      </div>
+                      <div className="text-xs text-gray-600 mb-2">
+                        Floor{load.floors.length === 1 ? "" : "s"} {load.floors.join(", ") || "-"}
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {load.rooms.map(renderRoom)}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+
+                <Button
+                  onClick={handleConfirm}
+                  className="w-full"
+                  size="lg"
+                  disabled={applyBoard.isPending}
+                >
+                  {applyBoard.isPending ? "Saving..." : "Confirm Board"}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
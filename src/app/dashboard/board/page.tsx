@@ -0,0 +1,232 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "react-toastify";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { OfflineIndicator } from "@/components/ui/offline-indicator";
+import { roomAssignmentKeys, useRoomAssignments } from "@/hooks/use-room-assignments";
+import { useStaff } from "@/hooks/use-staff";
+import { offlineManager } from "@/lib/offline/offline-manager";
+import { syncEngine } from "@/lib/offline/sync-engine";
+import { creditsFor } from "@/lib/room-board";
+import { toPascalCase } from "@/lib/utils";
+import { RoomAssignment } from "@/types/room";
+
+interface BoardColumn {
+  // null is the Unassigned column
+  userId: string | null;
+  title: string;
+  rooms: RoomAssignment[];
+  // Credits of the rooms in the column that still need cleaning
+  credits: number;
+}
+
+const PRIORITY_ORDER: Record<string, number> = {
+  URGENT: 0,
+  HIGH: 1,
+  MEDIUM: 2,
+  LOW: 3,
+};
+
+const getStatusColorLine = (status: string) => {
+  switch (status) {
+    case "DIRTY":
+      return "bg-red-500";
+    case "CLEAN":
+      return "bg-blue-500";
+    case "INSPECTED":
+      return "bg-green-500";
+    default:
+      return "bg-gray-500";
+  }
+};
+
+export default function SupervisorBoardPage() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { data: session, status } = useSession({
+    required: true,
+    onUnauthenticated() {
+      router.push("/login");
+    },
+  });
+  const { data: roomAssignments = [], isLoading } = useRoomAssignments();
+  // Needs the server; without it columns fall back to the IDs rooms carry
+  const { data: staff = [] } = useStaff();
+  const [dropTarget, setDropTarget] = useState<string | null | undefined>(undefined);
+
+  const columns = useMemo<BoardColumn[]>(() => {
+    const byUser = new Map<string | null, BoardColumn>();
+    const addColumn = (userId: string | null, title: string) => {
+      if (!byUser.has(userId)) {
+        byUser.set(userId, { userId, title, rooms: [], credits: 0 });
+      }
+      return byUser.get(userId)!;
+    };
+
+    addColumn(null, "Unassigned");
+    for (const member of staff) {
+      if (member.active && member.role === "ATTENDANT") {
+        addColumn(member.id, member.name || member.email);
+      }
+    }
+
+    for (const room of roomAssignments) {
+      const userId = room.assignedTo ?? null;
+      const member = staff.find((candidate) => candidate.id === userId);
+      // Rooms held by someone outside the attendant list still get a column
+      const column = addColumn(userId, member ? member.name || member.email : `User ${userId?.slice(0, 8)}`);
+      column.rooms.push(room);
+      if (room.status === "DIRTY") {
+        column.credits += creditsFor(room.occupancyStatus);
+      }
+    }
+
+    for (const column of byUser.values()) {
+      column.rooms.sort((a, b) =>
+        (PRIORITY_ORDER[a.priority] ?? 9) - (PRIORITY_ORDER[b.priority] ?? 9) ||
+        a.roomNumber.localeCompare(b.roomNumber, undefined, { numeric: true })
+      );
+    }
+
+    return Array.from(byUser.values());
+  }, [roomAssignments, staff]);
+
+  // Moving rooms between attendants is for supervisors and above
+  const canManageBoard = !!session && session.user.role !== "ATTENDANT";
+  useEffect(() => {
+    if (session && !canManageBoard) {
+      router.replace("/dashboard");
+    }
+  }, [session, canManageBoard, router]);
+
+  if (status === "loading" || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+          <p className="mt-2 text-sm text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null; // Will redirect to login
+  }
+
+  if (!canManageBoard) {
+    return null; // Will redirect to the dashboard
+  }
+
+  const moveRoom = async (roomId: number, userId: string | null) => {
+    const room = roomAssignments.find((candidate) => candidate.id === roomId);
+    if (!room || (room.assignedTo ?? null) === userId) return;
+
+    // Move the card right away; the offline manager's events refresh it later
+    queryClient.setQueryData<RoomAssignment[]>(roomAssignmentKeys.all, (rooms) =>
+      rooms?.map((candidate) => candidate.id === roomId ? { ...candidate, assignedTo: userId } : candidate)
+    );
+
+    try {
+      // Queued like any other edit, so it survives dropping off the network
+      await offlineManager.updateRoom(roomId, { assignedTo: userId });
+      if (navigator.onLine) {
+        syncEngine.syncNow();
+      }
+    } catch (error) {
+      console.error("Failed to reassign room:", error);
+      toast.error(`Failed to reassign room ${room.roomNumber}`);
+      queryClient.invalidateQueries({ queryKey: roomAssignmentKeys.all });
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent, userId: string | null) => {
+    event.preventDefault();
+    setDropTarget(undefined);
+    const roomId = parseInt(event.dataTransfer.getData("text/plain"), 10);
+    if (!isNaN(roomId)) {
+      moveRoom(roomId, userId);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b sticky top-0 z-40">
+        <div className="px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link href="/dashboard" className="text-sm text-gray-600">
+                Rooms
+              </Link>
+              <h1 className="font-semibold text-gray-900">Board</h1>
+              <OfflineIndicator />
+            </div>
+
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/dashboard/board/generate">Generate</Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Columns */}
+      <div className="flex gap-3 overflow-x-auto px-2 pt-5 pb-10">
+        {columns.map((column) => (
+          <div
+            key={column.userId ?? "unassigned"}
+            className={`flex-shrink-0 w-64 rounded-lg p-2 transition-colors ${
+              dropTarget === column.userId ? "bg-blue-50" : "bg-gray-100"
+            }`}
+            onDragOver={(event) => {
+              event.preventDefault();
+              setDropTarget(column.userId);
+            }}
+            onDragLeave={() => setDropTarget(undefined)}
+            onDrop={(event) => handleDrop(event, column.userId)}
+          >
+            <div className="flex items-center justify-between px-1 mb-2">
+              <h2 className="text-sm font-semibold text-gray-900 truncate">{column.title}</h2>
+              <span className="text-xs text-gray-600 whitespace-nowrap">
+                {column.credits} cr · {column.rooms.length}
+              </span>
+            </div>
+
+            <div className="space-y-2 min-h-16">
+              {column.rooms.map((room) => (
+                <Card
+                  key={room.id}
+                  draggable
+                  onDragStart={(event) => {
+                    event.dataTransfer.setData("text/plain", room.id.toString());
+                    event.dataTransfer.effectAllowed = "move";
+                  }}
+                  className={`py-3 shadow-sm cursor-grab active:cursor-grabbing ${
+                    room.status === "DIRTY" ? "" : "opacity-60"
+                  }`}
+                >
+                  <CardContent className="px-3">
+                    <div className="flex items-center gap-2">
+                      <div className={`h-4 w-1 rounded-full ${getStatusColorLine(room.status)}`}></div>
+                      <div className="font-semibold text-gray-900">Room {room.roomNumber}</div>
+                    </div>
+                    <div className="flex justify-between text-xs text-gray-600 mt-1">
+                      <span>{room.occupancyStatus || "-"}</span>
+                      <span>{toPascalCase(room.priority)}</span>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
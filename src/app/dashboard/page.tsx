@@ -2,15 +2,19 @@
 
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { useEffect, useState, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { RoomDetailsSheet } from "@/components/room-details-sheet";
 import { FilterSheet } from "@/components/filter-sheet";
+import { ConflictReviewSheet } from "@/components/conflict-review-sheet";
 import { OfflineIndicator } from "@/components/ui/offline-indicator";
+import { PropertySwitcher } from "@/components/property-switcher";
 import { useRoomAssignments } from "@/hooks/use-room-assignments";
 import { toPascalCase } from "@/lib/utils";
 import { offlineManager } from "@/lib/offline/offline-manager";
+import { arrivalWarning, compareRooms, formatArrivalWarning } from "@/lib/room-times";
 import {
   RoomStatus,
   RoomPriority,
@@ -91,6 +95,17 @@ export default function Dashboard() {
     sortBy: "priority",
   });
   const [dirtyRoomIds, setDirtyRoomIds] = useState<Set<number>>(new Set());
+  const [conflictRoomIds, setConflictRoomIds] = useState<Set<number>>(new Set());
+  const [isConflictSheetOpen, setIsConflictSheetOpen] = useState(false);
+  // null until the user picks one: attendants start on their own rooms
+  const [roomScope, setRoomScope] = useState<"mine" | "all" | null>(null);
+  // Arrival badges count down, so re-render once a minute
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
 
   // Fetch room assignments using TanStack Query
   const { data: roomAssignments = [], isLoading, error } = useRoomAssignments();
@@ -128,6 +143,29 @@ export default function Dashboard() {
     };
   }, []);
 
+  // Track rooms with unresolved sync conflicts
+  useEffect(() => {
+    const updateConflicts = async () => {
+      try {
+        await offlineManager.init();
+        const conflicts = await offlineManager.getConflicts();
+        setConflictRoomIds(new Set(conflicts.map(conflict => conflict.roomId)));
+      } catch (error) {
+        console.error('Failed to get conflicts:', error);
+      }
+    };
+
+    updateConflicts();
+
+    offlineManager.on('conflict-detected', updateConflicts);
+    offlineManager.on('conflict-resolved', updateConflicts);
+
+    return () => {
+      offlineManager.off('conflict-detected', updateConflicts);
+      offlineManager.off('conflict-resolved', updateConflicts);
+    };
+  }, []);
+
   // Deduplicate room assignments based on room ID and updated timestamp
   const deduplicatedRooms = useMemo(() => {
     if (!roomAssignments || roomAssignments.length === 0) return [];
@@ -173,6 +211,16 @@ export default function Dashboard() {
     return result;
   }, [roomAssignments]);
 
+  const activeRoomScope = roomScope ?? (session?.user.role === "ATTENDANT" ? "mine" : "all");
+
+  const visibleRooms = useMemo(() => {
+    const scoped =
+      activeRoomScope === "mine"
+        ? deduplicatedRooms.filter((room) => room.assignedTo === session?.user.id)
+        : deduplicatedRooms;
+    return [...scoped].sort(compareRooms(filters.sortBy ?? "priority"));
+  }, [deduplicatedRooms, activeRoomScope, session?.user.id, filters.sortBy]);
+
   const handleRoomClick = (room: RoomAssignment) => {
     setSelectedRoom(room);
     setIsSheetOpen(true);
@@ -240,10 +288,34 @@ export default function Dashboard() {
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-4">
               <h1 className="font-semibold text-gray-900">Room Assignments</h1>
+              <PropertySwitcher />
               <OfflineIndicator />
             </div>
 
             <div className="flex items-center gap-3">
+              {session.user.role !== "ATTENDANT" && (
+                <>
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href="/dashboard/board">Board</Link>
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href="/dashboard/staff">Staff</Link>
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href="/dashboard/reports">Reports</Link>
+                  </Button>
+                </>
+              )}
+              {conflictRoomIds.size > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsConflictSheetOpen(true)}
+                  className="border-red-200 text-red-700"
+                >
+                  {conflictRoomIds.size} Conflict{conflictRoomIds.size === 1 ? "" : "s"}
+                </Button>
+              )}
               <div className="relative">
                 <Button
                   variant="outline"
@@ -276,16 +348,40 @@ export default function Dashboard() {
       </div>
 
       <div className="px-2 pt-5 pb-10">
+        {/* Room Scope */}
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          <Button
+            variant={activeRoomScope === "mine" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setRoomScope("mine")}
+          >
+            My Rooms
+          </Button>
+          <Button
+            variant={activeRoomScope === "all" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setRoomScope("all")}
+          >
+            All Rooms
+          </Button>
+        </div>
+
         {/* Room List */}
         <div className="space-y-3">
-          {deduplicatedRooms.length === 0 ? (
+          {visibleRooms.length === 0 ? (
             <div className="text-center py-8">
-              <p className="text-gray-500">No room assignments found</p>
+              <p className="text-gray-500">
+                {activeRoomScope === "mine"
+                  ? "No rooms assigned to you"
+                  : "No room assignments found"}
+              </p>
             </div>
           ) : (
-            deduplicatedRooms.map((room) => {
+            visibleRooms.map((room) => {
               const statusDisplay = getStatusDisplayValue(room.status);
               const isUnsynced = dirtyRoomIds.has(room.id);
+              const hasConflict = conflictRoomIds.has(room.id);
+              const arrival = arrivalWarning(room, now);
 
               return (
                 <Card
@@ -304,7 +400,12 @@ export default function Dashboard() {
                         <div className="text-lg font-semibold tracking-tight text-gray-900">
                           Room {room.roomNumber}
                         </div>
-                        {isUnsynced && (
+                        {hasConflict ? (
+                          <div className="flex items-center gap-1">
+                            <div className="h-2 w-2 bg-red-500 rounded-full"></div>
+                            <span className="text-xs text-red-600 font-medium">Needs review</span>
+                          </div>
+                        ) : isUnsynced && (
                           <div className="flex items-center gap-1">
                             <div className="h-2 w-2 bg-orange-500 rounded-full"></div>
                             <span className="text-xs text-orange-600 font-medium">Pending sync</span>
@@ -323,6 +424,18 @@ export default function Dashboard() {
                       </div>
                     </div>
 
+                    {arrival && (
+                      <div
+                        className={`mb-3 px-2 py-1 rounded-md text-xs font-medium border ${
+                          arrival.urgent
+                            ? "bg-red-100 text-red-800 border-red-200"
+                            : "bg-yellow-100 text-yellow-800 border-yellow-200"
+                        }`}
+                      >
+                        {formatArrivalWarning(arrival)}
+                      </div>
+                    )}
+
                     <div className="grid grid-cols-2 gap-3 text-sm mb-2">
                       <div>
                         <div className="text-gray-600">Guest</div>
@@ -364,6 +477,12 @@ export default function Dashboard() {
         onClose={handleSheetClose}
       />
 
+      {/* Conflict Review Sheet */}
+      <ConflictReviewSheet
+        isOpen={isConflictSheetOpen}
+        onClose={() => setIsConflictSheetOpen(false)}
+      />
+
       {/* Filter Sheet */}
       <FilterSheet
         isOpen={isFilterSheetOpen}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { OfflineIndicator } from "@/components/ui/offline-indicator";
+import { useCleaningTimeReport } from "@/hooks/use-reports";
+import { CleaningTimeReportRow } from "@/types/timer";
+
+const toDateInput = (date: Date) => {
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const formatVariance = (minutes: number | null) => {
+  if (minutes === null) return "-";
+  return minutes > 0 ? `+${minutes} min` : `${minutes} min`;
+};
+
+export default function ReportsPage() {
+  const router = useRouter();
+  const { data: session, status } = useSession({
+    required: true,
+    onUnauthenticated() {
+      router.push("/login");
+    },
+  });
+  const [day, setDay] = useState(() => toDateInput(new Date()));
+
+  // The whole local day, cut off at now so rooms in progress count up to now
+  const filters = useMemo(() => {
+    const from = new Date(`${day}T00:00:00`);
+    const endOfDay = new Date(`${day}T23:59:59.999`);
+    const to = new Date(Math.min(endOfDay.getTime(), Date.now()));
+    return { from: from.toISOString(), to: to.toISOString() };
+  }, [day]);
+
+  const { data: report, isLoading, error } = useCleaningTimeReport(filters);
+
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+          <p className="mt-2 text-sm text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null; // Will redirect to login
+  }
+
+  const renderRow = (row: CleaningTimeReportRow) => (
+    <Card key={row.roomAssignmentId} className="py-4 shadow-sm">
+      <CardContent className="px-5">
+        <div className="flex items-center justify-between mb-2">
+          <div className="text-lg font-semibold tracking-tight text-gray-900">
+            Room {row.roomNumber}
+          </div>
+          {!row.finishedAt && (
+            <div className="px-2 py-1 rounded-full text-xs font-medium border bg-blue-100 text-blue-800 border-blue-200">
+              In Progress
+            </div>
+          )}
+        </div>
+        <div className="text-xs text-gray-500 mb-3">{row.attendantName || "Unknown attendant"}</div>
+
+        <div className="grid grid-cols-4 gap-3 text-sm">
+          <div>
+            <div className="text-gray-600">Actual</div>
+            <div className="font-medium">{row.actualMinutes} min</div>
+          </div>
+          <div>
+            <div className="text-gray-600">Estimated</div>
+            <div className="font-medium">
+              {row.estimatedMinutes !== null ? `${row.estimatedMinutes} min` : "-"}
+            </div>
+          </div>
+          <div>
+            <div className="text-gray-600">Variance</div>
+            <div
+              className={`font-medium ${
+                row.varianceMinutes !== null && row.varianceMinutes > 0 ? "text-red-600" : ""
+              }`}
+            >
+              {formatVariance(row.varianceMinutes)}
+            </div>
+          </div>
+          <div>
+            <div className="text-gray-600">Paused</div>
+            <div className="font-medium">{row.pausedMinutes} min</div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b sticky top-0 z-40">
+        <div className="px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link href="/dashboard" className="text-sm text-gray-600">
+                Rooms
+              </Link>
+              <h1 className="font-semibold text-gray-900">Cleaning Time</h1>
+              <OfflineIndicator />
+            </div>
+
+            <Input
+              type="date"
+              value={day}
+              max={toDateInput(new Date())}
+              onChange={(e) => e.target.value && setDay(e.target.value)}
+              className="w-40"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="px-2 pt-5 pb-10 space-y-6">
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-8">
+            <p className="text-red-600">Error loading report</p>
+            <p className="text-sm text-gray-600 mt-2">{error.message}</p>
+          </div>
+        ) : !report || report.rows.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No rooms were timed on this day</p>
+          </div>
+        ) : (
+          <>
+            {/* Per attendant */}
+            <div className="space-y-2">
+              <h2 className="px-2 text-sm font-medium text-gray-700">By Attendant</h2>
+              {report.attendants.map((attendant) => (
+                <Card key={attendant.userId ?? "unknown"} className="py-4 shadow-sm">
+                  <CardContent className="px-5">
+                    <div className="flex items-center justify-between">
+                      <div className="font-semibold text-gray-900">
+                        {attendant.name || "Unknown attendant"}
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {attendant.rooms} {attendant.rooms === 1 ? "room" : "rooms"} · avg {attendant.averageMinutes} min
+                      </div>
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {attendant.actualMinutes} min actual · {attendant.estimatedMinutes} min estimated
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {/* Per room */}
+            <div className="space-y-2">
+              <h2 className="px-2 text-sm font-medium text-gray-700">By Room</h2>
+              {report.rows.map(renderRow)}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
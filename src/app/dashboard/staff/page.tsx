@@ -0,0 +1,158 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { OfflineIndicator } from "@/components/ui/offline-indicator";
+import { StaffMemberSheet } from "@/components/staff-member-sheet";
+import { InviteStaffSheet } from "@/components/invite-staff-sheet";
+import { useStaff } from "@/hooks/use-staff";
+import { toPascalCase } from "@/lib/utils";
+import { StaffMember } from "@/types/user";
+
+export default function StaffPage() {
+  const router = useRouter();
+  const { data: session, status } = useSession({
+    required: true,
+    onUnauthenticated() {
+      router.push("/login");
+    },
+  });
+  const [selectedMemberId, setSelectedMemberId] = useState<string | null>(null);
+  const [isInviteSheetOpen, setIsInviteSheetOpen] = useState(false);
+
+  const { data: staff = [], isLoading, error } = useStaff();
+
+  // Look the member up on every render so the sheet shows fresh counts
+  const selectedMember = staff.find((member) => member.id === selectedMemberId) ?? null;
+  const isAdmin = session?.user.role === "ADMIN";
+
+  if (status === "loading" || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+          <p className="mt-2 text-sm text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null; // Will redirect to login
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-600">Error loading staff</p>
+          <p className="text-sm text-gray-600 mt-2">{error.message}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const renderMember = (member: StaffMember) => (
+    <Card
+      key={member.id}
+      className={`py-5 shadow-sm cursor-pointer hover:shadow-md transition-shadow ${
+        member.active ? "" : "opacity-60"
+      }`}
+      onClick={() => setSelectedMemberId(member.id)}
+    >
+      <CardContent className="px-5">
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <div className="text-lg font-semibold tracking-tight text-gray-900">
+              {member.name || member.email}
+            </div>
+            {member.name && (
+              <div className="text-xs text-gray-500">{member.email}</div>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <div className="px-2 py-1 rounded-full text-xs font-medium border bg-gray-100 text-gray-800 border-gray-200">
+              {toPascalCase(member.role)}
+            </div>
+            {!member.active && (
+              <div className="px-2 py-1 rounded-full text-xs font-medium border bg-red-100 text-red-800 border-red-200">
+                Inactive
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 text-sm">
+          <div>
+            <div className="text-gray-600">Shift</div>
+            <div className="font-medium">
+              {member.shift ? toPascalCase(member.shift) : "-"}
+            </div>
+          </div>
+          <div>
+            <div className="text-gray-600">Assigned</div>
+            <div className="font-medium">{member.roomsAssigned}</div>
+          </div>
+          <div>
+            <div className="text-gray-600">Done Today</div>
+            <div className="font-medium">{member.roomsCompletedToday}</div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b sticky top-0 z-40">
+        <div className="px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link href="/dashboard" className="text-sm text-gray-600">
+                Rooms
+              </Link>
+              <h1 className="font-semibold text-gray-900">Staff</h1>
+              <OfflineIndicator />
+            </div>
+
+            {isAdmin && (
+              <Button size="sm" onClick={() => setIsInviteSheetOpen(true)}>
+                Invite
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="px-2 pt-5 pb-10">
+        <div className="space-y-3">
+          {staff.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-gray-500">No staff found</p>
+            </div>
+          ) : (
+            staff.map(renderMember)
+          )}
+        </div>
+      </div>
+
+      <StaffMemberSheet
+        member={selectedMember}
+        isOpen={!!selectedMember}
+        onClose={() => setSelectedMemberId(null)}
+        canManage={isAdmin}
+        isSelf={selectedMember?.id === session.user.id}
+      />
+
+      <InviteStaffSheet
+        isOpen={isInviteSheetOpen}
+        onClose={() => setIsInviteSheetOpen(false)}
+      />
+    </div>
+  );
+}
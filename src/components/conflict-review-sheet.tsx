@@ -0,0 +1,291 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { toPascalCase } from "@/lib/utils";
+import { formatPropertyDateTime } from "@/lib/property-time";
+import { offlineManager } from "@/lib/offline/offline-manager";
+import {
+  FieldConflict,
+  FieldValue,
+  MergeableField,
+  RoomConflict,
+  RoomSnapshot,
+} from "@/lib/offline/indexeddb";
+import {
+  RoomAssignmentStatus,
+  RoomAssignmentPriority,
+  RoomOccupancy,
+  ServiceStatus,
+} from "@/types/room";
+import { CleaningServiceType } from "@/types/checklist";
+
+interface ConflictReviewSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const fieldLabels: Record<MergeableField, string> = {
+  status: "Room Status",
+  serviceStatus: "Service Status",
+  notes: "Notes",
+  priority: "Priority",
+  occupancy: "Occupancy",
+  assignedTo: "Assigned To",
+  guestName: "Guest",
+  occupancyStatus: "Occupancy Status",
+  bedType: "Bed Type",
+  checkoutTime: "Checkout Time",
+  estimatedMinutes: "Estimated Minutes",
+  guestCheckout: "Guest Checkout",
+  nextCheckin: "Next Check-in",
+  cleaningType: "Cleaning Type",
+};
+
+// Enum-backed fields are edited by picking a value rather than typing one
+const fieldOptions: Partial<Record<MergeableField, string[]>> = {
+  status: Object.values(RoomAssignmentStatus),
+  serviceStatus: Object.values(ServiceStatus),
+  priority: Object.values(RoomAssignmentPriority),
+  occupancy: Object.values(RoomOccupancy),
+  cleaningType: Object.values(CleaningServiceType),
+};
+
+// Timestamps are settled by picking a side; typing one in is too error-prone
+const timestampFields = new Set<MergeableField>(["checkoutTime", "guestCheckout", "nextCheckin"]);
+
+const formatValue = (field: MergeableField, value: FieldValue) => {
+  if (value === null || value === "") return "—";
+  if (timestampFields.has(field)) return formatPropertyDateTime(value) ?? value;
+  return fieldOptions[field] ? toPascalCase(value) : value;
+};
+
+export function ConflictReviewSheet({ isOpen, onClose }: ConflictReviewSheetProps) {
+  const [conflicts, setConflicts] = useState<RoomConflict[]>([]);
+  const [editingRoomId, setEditingRoomId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<RoomSnapshot>({});
+  const [resolvingRoomId, setResolvingRoomId] = useState<number | null>(null);
+
+  const loadConflicts = useCallback(async () => {
+    try {
+      await offlineManager.init();
+      const stored = await offlineManager.getConflicts();
+      setConflicts(stored.sort((a, b) => a.roomNumber.localeCompare(b.roomNumber)));
+    } catch (error) {
+      console.error("Failed to load conflicts:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    loadConflicts();
+
+    offlineManager.on("conflict-detected", loadConflicts);
+    offlineManager.on("conflict-resolved", loadConflicts);
+
+    return () => {
+      offlineManager.off("conflict-detected", loadConflicts);
+      offlineManager.off("conflict-resolved", loadConflicts);
+    };
+  }, [isOpen, loadConflicts]);
+
+  const resolve = async (conflict: RoomConflict, resolution: RoomSnapshot) => {
+    setResolvingRoomId(conflict.roomId);
+
+    try {
+      await offlineManager.resolveConflict(conflict.roomId, resolution);
+      toast.success(`Room ${conflict.roomNumber} conflict resolved`);
+      setEditingRoomId(null);
+    } catch (error) {
+      console.error("Failed to resolve conflict:", error);
+      toast.error(`Failed to resolve conflict for room ${conflict.roomNumber}`);
+    } finally {
+      setResolvingRoomId(null);
+      loadConflicts();
+    }
+  };
+
+  const pick = (conflict: RoomConflict, side: "local" | "server"): RoomSnapshot =>
+    Object.fromEntries(conflict.fields.map((field) => [field.field, field[side]]));
+
+  const startEditing = (conflict: RoomConflict) => {
+    setDraft(pick(conflict, "local"));
+    setEditingRoomId(conflict.roomId);
+  };
+
+  const renderEditor = ({ field, local, server }: FieldConflict) => {
+    const value = draft[field] ?? "";
+    const options = fieldOptions[field];
+
+    if (timestampFields.has(field)) {
+      return (
+        <div className="flex flex-wrap gap-2">
+          {Array.from(new Set([local, server])).map((option) => (
+            <Button
+              key={option ?? "none"}
+              variant={(draft[field] ?? null) === option ? "default" : "outline"}
+              size="sm"
+              onClick={() => setDraft((prev) => ({ ...prev, [field]: option }))}
+            >
+              {formatValue(field, option)}
+            </Button>
+          ))}
+        </div>
+      );
+    }
+
+    if (options) {
+      return (
+        <div className="flex flex-wrap gap-2">
+          {options.map((option) => (
+            <Button
+              key={option}
+              variant={value === option ? "default" : "outline"}
+              size="sm"
+              onClick={() => setDraft((prev) => ({ ...prev, [field]: option }))}
+            >
+              {toPascalCase(option)}
+            </Button>
+          ))}
+        </div>
+      );
+    }
+
+    if (field === "notes") {
+      return (
+        <Textarea
+          value={value}
+          onChange={(e) => setDraft((prev) => ({ ...prev, [field]: e.target.value }))}
+          className="min-h-20"
+        />
+      );
+    }
+
+    return (
+      <Input
+        type={field === "estimatedMinutes" ? "number" : "text"}
+        value={value}
+        onChange={(e) => setDraft((prev) => ({ ...prev, [field]: e.target.value }))}
+      />
+    );
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onClose}>
+      <SheetContent side="bottom" className="h-screen max-h-none flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="text-xl">Sync Conflicts</SheetTitle>
+          <SheetDescription>
+            These rooms were changed on this device and by someone else at the same time
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-3">
+          {conflicts.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-gray-500">No conflicts to review</p>
+            </div>
+          ) : (
+            conflicts.map((conflict) => {
+              const isEditing = editingRoomId === conflict.roomId;
+              const isResolving = resolvingRoomId === conflict.roomId;
+
+              return (
+                <Card key={conflict.roomId} className="py-5 shadow-sm">
+                  <CardContent className="px-5 space-y-4">
+                    <div className="flex items-center justify-between">
+                      <div className="text-lg font-semibold tracking-tight text-gray-900">
+                        Room {conflict.roomNumber}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(conflict.detectedAt).toLocaleString()}
+                      </div>
+                    </div>
+
+                    {conflict.fields.map(({ field, base, local, server }) => (
+                      <div key={field} className="space-y-2">
+                        <h4 className="text-xs font-medium text-gray-600">
+                          {fieldLabels[field]}
+                        </h4>
+                        {isEditing ? (
+                          renderEditor({ field, base, local, server })
+                        ) : (
+                          <div className="grid grid-cols-2 gap-3 text-sm">
+                            <div className="p-2 rounded-md border border-orange-200 bg-orange-50">
+                              <div className="text-xs text-orange-700">Mine</div>
+                              <div className="font-medium break-words">{formatValue(field, local)}</div>
+                            </div>
+                            <div className="p-2 rounded-md border border-blue-200 bg-blue-50">
+                              <div className="text-xs text-blue-700">Server</div>
+                              <div className="font-medium break-words">{formatValue(field, server)}</div>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+
+                    {isEditing ? (
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          className="flex-1"
+                          onClick={() => setEditingRoomId(null)}
+                          disabled={isResolving}
+                        >
+                          Cancel
+                        </Button>
+                        <Button
+                          className="flex-1"
+                          onClick={() => resolve(conflict, draft)}
+                          disabled={isResolving}
+                        >
+                          Save
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="grid grid-cols-3 gap-2">
+                        <Button
+                          variant="outline"
+                          onClick={() => resolve(conflict, pick(conflict, "local"))}
+                          disabled={isResolving}
+                        >
+                          Keep Mine
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={() => resolve(conflict, pick(conflict, "server"))}
+                          disabled={isResolving}
+                        >
+                          Take Theirs
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={() => startEditing(conflict)}
+                          disabled={isResolving}
+                        >
+                          Edit
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -37,6 +37,7 @@ export function FilterSheet({
     { value: "priority", label: "Priority (High to Low)" },
     { value: "roomNumber", label: "Room Number" },
     { value: "checkoutTime", label: "Checkout Time" },
+    { value: "nextCheckin", label: "Next Arrival" },
   ];
 
   const handleCleanlinessToggle = (value: RoomStatus) => {
@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useInspectionTemplate, useRecordInspection } from "@/hooks/use-inspections";
+import { InspectionItemOutcome } from "@/types/inspection";
+
+interface InspectionSheetProps {
+  roomId: number;
+  roomNumber: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface ItemAnswer {
+  outcome?: InspectionItemOutcome;
+  notes: string;
+}
+
+const outcomeOptions = [
+  { value: InspectionItemOutcome.PASS, label: "Pass" },
+  { value: InspectionItemOutcome.FAIL, label: "Fail" },
+  { value: InspectionItemOutcome.NOT_APPLICABLE, label: "N/A" },
+];
+
+export function InspectionSheet({ roomId, roomNumber, isOpen, onClose }: InspectionSheetProps) {
+  const { data: template, isLoading, error } = useInspectionTemplate(roomId, isOpen);
+  const recordInspection = useRecordInspection();
+  const [answers, setAnswers] = useState<Record<string, ItemAnswer>>({});
+  const [startedAt, setStartedAt] = useState(() => new Date());
+
+  // Start a fresh checklist every time the sheet opens
+  useEffect(() => {
+    if (isOpen) {
+      setAnswers({});
+      setStartedAt(new Date());
+    }
+  }, [isOpen, roomId]);
+
+  const setAnswer = (itemId: string, answer: Partial<ItemAnswer>) => {
+    setAnswers((prev) => ({
+      ...prev,
+      [itemId]: { ...prev[itemId], ...answer, notes: answer.notes ?? prev[itemId]?.notes ?? "" },
+    }));
+  };
+
+  const isComplete = !!template && template.items.every((item) => answers[item.id]?.outcome);
+
+  const handleSubmit = () => {
+    if (!template) return;
+
+    recordInspection.mutate(
+      {
+        roomId,
+        data: {
+          templateId: template.id,
+          startedAt,
+          results: template.items.map((item) => ({
+            itemId: item.id,
+            outcome: answers[item.id].outcome!,
+            notes: answers[item.id].notes.trim() || undefined,
+          })),
+        },
+      },
+      {
+        onSuccess: ({ inspection }) => {
+          if (inspection.passed) {
+            toast.success(`Room ${roomNumber} passed inspection (${inspection.score}/100)`);
+          } else {
+            toast.warn(`Room ${roomNumber} failed inspection (${inspection.score}/100) and is back to dirty`);
+          }
+          onClose();
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onClose}>
+      <SheetContent side="bottom" className="h-screen max-h-none flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="text-xl">Inspect Room {roomNumber}</SheetTitle>
+          <SheetDescription>
+            {template
+              ? `${template.name} · passing score ${template.passingScore}`
+              : "Inspection checklist"}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-4">
+          {isLoading && <p className="text-sm text-gray-600">Loading checklist...</p>}
+          {error && <p className="text-sm text-red-600">{error.message}</p>}
+
+          {template?.items.map((item) => (
+            <div key={item.id} className="space-y-2 border-b pb-4">
+              <h4 className="text-sm font-medium text-gray-700">
+                {item.label}
+                {item.critical && <span className="ml-2 text-xs text-red-600">Critical</span>}
+              </h4>
+              <div className="grid grid-cols-3 gap-2">
+                {outcomeOptions.map((option) => (
+                  <Button
+                    key={option.value}
+                    variant={answers[item.id]?.outcome === option.value ? "default" : "outline"}
+                    onClick={() => setAnswer(item.id, { outcome: option.value })}
+                    size="sm"
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+              {answers[item.id]?.outcome === InspectionItemOutcome.FAIL && (
+                <Input
+                  placeholder="What needs redoing?"
+                  value={answers[item.id].notes}
+                  onChange={(e) => setAnswer(item.id, { notes: e.target.value })}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+
+        <SheetFooter className="border-t p-4">
+          <Button
+            onClick={handleSubmit}
+            className="w-full"
+            size="lg"
+            disabled={!isComplete || recordInspection.isPending}
+          >
+            {recordInspection.isPending ? "Submitting..." : "Submit Inspection"}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "react-toastify";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toPascalCase } from "@/lib/utils";
+import { useInviteUser } from "@/hooks/use-staff";
+import { StaffShift, UserRole } from "@/types/user";
+
+interface InviteStaffSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const roleOptions = [UserRole.ATTENDANT, UserRole.SUPERVISOR, UserRole.MANAGER, UserRole.ADMIN];
+const shiftOptions = [StaffShift.MORNING, StaffShift.AFTERNOON, StaffShift.NIGHT];
+
+export function InviteStaffSheet({ isOpen, onClose }: InviteStaffSheetProps) {
+  const inviteUser = useInviteUser();
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<UserRole>(UserRole.ATTENDANT);
+  const [shift, setShift] = useState<StaffShift | undefined>(undefined);
+  // Shown once after the invite; the server does not keep it in plain text
+  const [temporaryPassword, setTemporaryPassword] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setEmail("");
+    setName("");
+    setRole(UserRole.ATTENDANT);
+    setShift(undefined);
+    setTemporaryPassword(null);
+    onClose();
+  };
+
+  const handleInvite = () => {
+    inviteUser.mutate(
+      {
+        email: email.trim(),
+        name: name.trim() || undefined,
+        role,
+        shift,
+      },
+      {
+        onSuccess: (user) => {
+          toast.success(`${user.name || user.email} invited`);
+          setTemporaryPassword(user.temporaryPassword ?? null);
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={handleClose}>
+      <SheetContent side="bottom" className="h-auto max-h-[90vh] flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="text-xl">Invite Staff</SheetTitle>
+          <SheetDescription>
+            A temporary password is generated to hand over to the new user
+          </SheetDescription>
+        </SheetHeader>
+
+        {temporaryPassword ? (
+          <div className="px-4 pb-4 space-y-2">
+            <p className="text-sm text-gray-600">
+              Temporary password for {email.trim()}. It will not be shown again.
+            </p>
+            <p className="p-3 bg-secondary rounded-lg font-mono text-center select-all">
+              {temporaryPassword}
+            </p>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-name">Name</Label>
+              <Input
+                id="invite-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-700">Role</h4>
+              <div className="grid grid-cols-2 gap-2">
+                {roleOptions.map((option) => (
+                  <Button
+                    key={option}
+                    variant={role === option ? "default" : "outline"}
+                    onClick={() => setRole(option)}
+                  >
+                    {toPascalCase(option)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-700">Shift</h4>
+              <div className="grid grid-cols-3 gap-2">
+                {shiftOptions.map((option) => (
+                  <Button
+                    key={option}
+                    variant={shift === option ? "default" : "outline"}
+                    onClick={() => setShift(shift === option ? undefined : option)}
+                  >
+                    {toPascalCase(option)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <SheetFooter className="border-t p-4">
+          {temporaryPassword ? (
+            <Button onClick={handleClose} className="w-full" size="lg">
+              Done
+            </Button>
+          ) : (
+            <Button
+              onClick={handleInvite}
+              className="w-full"
+              size="lg"
+              disabled={!email.trim() || inviteUser.isPending}
+            >
+              {inviteUser.isPending ? "Inviting..." : "Send Invite"}
+            </Button>
+          )}
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
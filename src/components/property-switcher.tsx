@@ -0,0 +1,51 @@
+"use client";
+
+import { toast } from "react-toastify";
+import { cn } from "@/lib/utils";
+import { useActiveProperty } from "@/hooks/use-properties";
+
+interface PropertySwitcherProps {
+  className?: string;
+}
+
+export function PropertySwitcher({ className }: PropertySwitcherProps) {
+  const { properties, activeProperty, switchProperty } = useActiveProperty();
+
+  if (!activeProperty) return null;
+
+  // Nothing to switch between; just show where the user is working
+  if (properties.length === 1) {
+    return (
+      <span className={cn("text-sm text-gray-600", className)} title={activeProperty.name}>
+        {activeProperty.code}
+      </span>
+    );
+  }
+
+  const handleChange = (propertyId: string) => {
+    const property = properties.find((p) => p.id === propertyId);
+    if (!property) return;
+
+    switchProperty(property)
+      .then(() => toast.success(`Switched to ${property.name}`))
+      .catch((error) => toast.error(`Failed to switch property: ${error.message}`));
+  };
+
+  return (
+    <select
+      aria-label="Property"
+      value={activeProperty.id}
+      onChange={(event) => handleChange(event.target.value)}
+      className={cn(
+        "h-8 rounded-md border border-input bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50",
+        className
+      )}
+    >
+      {properties.map((property) => (
+        <option key={property.id} value={property.id}>
+          {property.code} · {property.name}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -12,11 +12,24 @@ import { Textarea } from "@/components/ui/textarea";
 import { useState, useEffect } from "react";
 import { toast } from "react-toastify";
 import { useQueryClient } from "@tanstack/react-query";
+import { useSession } from "next-auth/react";
+import { CheckCircle2, Circle } from "lucide-react";
 
 import { Room, ServiceStatus } from "@/types/room";
 import { offlineManager } from "@/lib/offline/offline-manager";
-import { backgroundSyncService } from "@/lib/offline/background-sync";
-import { roomAssignmentKeys } from "@/hooks/use-room-assignments";
+import { syncEngine } from "@/lib/offline/sync-engine";
+import { roomAssignmentKeys, useDeleteRoomAssignment } from "@/hooks/use-room-assignments";
+import { useStaff } from "@/hooks/use-staff";
+import { useCleaningChecklists } from "@/hooks/use-cleaning-checklists";
+import { checklistFor, openSteps } from "@/lib/cleaning-checklist";
+import { useRecordTimerEvent, useRoomTimer } from "@/hooks/use-room-timer";
+import { allowedTimerEvents, formatDuration } from "@/lib/cleaning-timer";
+import { CleaningTimerEventType } from "@/types/timer";
+import { formatPropertyDateTime } from "@/lib/property-time";
+import { useRoomHistory } from "@/hooks/use-room-history";
+import { fieldLabel, formatChangeValue, showsPreviousValue, SOURCE_LABELS } from "@/lib/room-history";
+import { RoomAssignmentEventType } from "@/types/history";
+import { InspectionSheet } from "@/components/inspection-sheet";
 
 interface RoomDetailsSheetProps {
   room: Room | null;
@@ -30,13 +43,27 @@ export function RoomDetailsSheet({
   onClose,
 }: RoomDetailsSheetProps) {
   const queryClient = useQueryClient();
+  const deleteRoomAssignment = useDeleteRoomAssignment();
+  const { data: session } = useSession();
+  // Deleting and (re)assigning rooms is left to supervisors and above
+  const canDelete = !!session && session.user.role !== "ATTENDANT";
+  const canAssign = canDelete;
+  const { data: staff = [] } = useStaff({ enabled: canAssign });
+  const assignableStaff = staff.filter((member) => member.active && member.role === "ATTENDANT");
   const [serviceStatus, setServiceStatus] = useState<ServiceStatus>(
     room?.serviceStatus || ServiceStatus.PENDING
   );
   const [housekeepingNote, setHousekeepingNote] = useState(room?.notes || "");
+  const [assignedTo, setAssignedTo] = useState<string | null>(room?.assignedTo ?? null);
+  const [completedSteps, setCompletedSteps] = useState<string[]>(room?.completedSteps ?? []);
+  const { data: checklists = [] } = useCleaningChecklists();
+  const { summary: timer } = useRoomTimer(room?.id);
+  const recordTimerEvent = useRecordTimerEvent();
   const [isOffline, setIsOffline] = useState(!navigator.onLine);
   const [isSyncing, setIsSyncing] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [isInspectionOpen, setIsInspectionOpen] = useState(false);
+  const { data: history = [], isLoading: isHistoryLoading } = useRoomHistory(room?.id, isOpen && !isOffline);
 
   // Initialize offline manager and sync service
   useEffect(() => {
@@ -52,11 +79,8 @@ export function RoomDetailsSheet({
     initializeOfflineServices();
 
     // Listen for online/offline status changes
-    const handleOnline = () => {
-      setIsOffline(false);
-      // Trigger sync when coming back online
-      backgroundSyncService.forcSync();
-    };
+    // The sync engine picks up reconnects on its own
+    const handleOnline = () => setIsOffline(false);
     const handleOffline = () => setIsOffline(true);
 
     window.addEventListener("online", handleOnline);
@@ -81,11 +105,38 @@ export function RoomDetailsSheet({
     if (room) {
       setServiceStatus(room.serviceStatus || ServiceStatus.PENDING);
       setHousekeepingNote(room.notes || "");
+      setAssignedTo(room.assignedTo ?? null);
+      setCompletedSteps(room.completedSteps ?? []);
     }
   }, [room]);
 
   if (!room) return null;
 
+  const checklist = checklistFor(checklists, room);
+  const remainingSteps = openSteps(checklist, { ...room, completedSteps });
+
+  const userName = (id: string) => {
+    if (id === session?.user.id) return "You";
+    const member = staff.find((candidate) => candidate.id === id);
+    return member ? member.name || member.email : undefined;
+  };
+
+  const timerActions = allowedTimerEvents(timer.state);
+  const estimatedMinutes = room.estimatedMinutes ?? null;
+
+  const handleTimer = (type: CleaningTimerEventType, reason?: string) => {
+    recordTimerEvent.mutate(
+      { roomId: room.id, type, reason },
+      { onError: () => toast.error("Failed to record cleaning time") }
+    );
+  };
+
+  const toggleStep = (stepId: string) => {
+    setCompletedSteps((steps) =>
+      steps.includes(stepId) ? steps.filter((id) => id !== stepId) : [...steps, stepId]
+    );
+  };
+
   const handleServiceStatusChange = (status: ServiceStatus) => {
     setServiceStatus(status);
     // Here you would typically make an API call to update the service status
@@ -95,6 +146,17 @@ export function RoomDetailsSheet({
   const handleSubmit = async () => {
     if (!room) return;
 
+    // The server refuses CLEAN with open steps too; supervisors may override
+    if (
+      serviceStatus === ServiceStatus.COMPLETE &&
+      (room.status as string) !== "CLEAN" &&
+      remainingSteps.length > 0 &&
+      !canAssign
+    ) {
+      toast.error(`Finish the cleaning checklist first: ${remainingSteps.map((step) => step.label).join(", ")}`);
+      return;
+    }
+
     setIsUpdating(true);
 
     try {
@@ -109,6 +171,23 @@ export function RoomDetailsSheet({
         updateData.status = "CLEAN";
       }
 
+      // Completing the room stops its timer, once the update is saved
+      const finishTimer =
+        serviceStatus === ServiceStatus.COMPLETE && timerActions.includes(CleaningTimerEventType.FINISH);
+
+      // Only sent when changed so the server records a single handover
+      if (canAssign && assignedTo !== (room.assignedTo ?? null)) {
+        updateData.assignedTo = assignedTo;
+      }
+
+      const previousSteps = room.completedSteps ?? [];
+      if (
+        completedSteps.length !== previousSteps.length ||
+        completedSteps.some((id) => !previousSteps.includes(id))
+      ) {
+        updateData.completedSteps = completedSteps;
+      }
+
       // OPTIMISTIC UPDATE: Update UI immediately before actual update
       const optimisticRoom = {
         ...room,
@@ -137,6 +216,14 @@ export function RoomDetailsSheet({
       try {
         await offlineManager.updateRoom(room.id, updateData); // Fixed: Use number directly
 
+        if (finishTimer) {
+          try {
+            await recordTimerEvent.mutateAsync({ roomId: room.id, type: CleaningTimerEventType.FINISH });
+          } catch {
+            toast.error("Failed to record cleaning time");
+          }
+        }
+
         // Show sync status message
         if (isOffline) {
           toast.info(
@@ -147,7 +234,7 @@ export function RoomDetailsSheet({
           );
         } else {
           // Trigger background sync for immediate server update
-          backgroundSyncService.forcSync();
+          syncEngine.syncNow();
           toast.success(`Changes synced to server successfully!`, {
             autoClose: 2000,
           });
@@ -172,6 +259,19 @@ export function RoomDetailsSheet({
     }
   };
 
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the assignment for room ${room.roomNumber}?`)) return;
+
+    deleteRoomAssignment.mutate(room.id, {
+      onSuccess: () => {
+        onClose();
+        if (!isOffline) {
+          syncEngine.syncNow();
+        }
+      },
+    });
+  };
+
   return (
     <Sheet open={isOpen} onOpenChange={onClose}>
       <SheetContent side="bottom" className="h-screen max-h-none flex flex-col">
@@ -205,14 +305,78 @@ export function RoomDetailsSheet({
               <h3 className="text-xs font-medium text-gray-600 mb-1">
                 Checkout Time
               </h3>
-              <p className="">{room.guestCheckout || "Not specified"}</p>
+              <p className="">{formatPropertyDateTime(room.guestCheckout ?? room.checkoutTime) || "Not specified"}</p>
             </div>
 
             <div>
               <h3 className="text-xs font-medium text-gray-600 mb-1">
                 Next Check-in
               </h3>
-              <p className="">{room.nextCheckin || "Not specified"}</p>
+              <p className="">{formatPropertyDateTime(room.nextCheckin) || "Not specified"}</p>
+            </div>
+          </div>
+
+          {/* Rework from a failed inspection */}
+          {room.reworkNote && (
+            <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <h4 className="font-medium text-red-800 mb-2">Rework Needed</h4>
+              <p className="text-sm text-red-700 whitespace-pre-line">{room.reworkNote}</p>
+            </div>
+          )}
+
+          {/* Cleaning Time */}
+          <div className="mb-4 p-4 border rounded-lg">
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <h4 className="font-medium">Cleaning Time</h4>
+                <p className="text-xs text-gray-500">
+                  {timer.state === "paused" && "Paused · "}
+                  {timer.state === "finished" && "Finished · "}
+                  {estimatedMinutes !== null ? `Estimated ${estimatedMinutes} min` : "No estimate"}
+                </p>
+              </div>
+              <span
+                className={`text-2xl font-mono ${
+                  estimatedMinutes !== null && timer.activeMs > estimatedMinutes * 60000
+                    ? "text-red-600"
+                    : ""
+                }`}
+              >
+                {formatDuration(timer.activeMs)}
+              </span>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {timerActions.includes(CleaningTimerEventType.START) && (
+                <Button className="col-span-2" onClick={() => handleTimer(CleaningTimerEventType.START)}>
+                  {timer.state === "finished" ? "Start Again" : "Start Cleaning"}
+                </Button>
+              )}
+              {timerActions.includes(CleaningTimerEventType.PAUSE) && (
+                <>
+                  <Button
+                    variant="outline"
+                    onClick={() => handleTimer(CleaningTimerEventType.PAUSE, "Guest returned")}
+                  >
+                    Guest Returned
+                  </Button>
+                  <Button variant="outline" onClick={() => handleTimer(CleaningTimerEventType.PAUSE)}>
+                    Pause
+                  </Button>
+                </>
+              )}
+              {timerActions.includes(CleaningTimerEventType.RESUME) && (
+                <Button variant="outline" onClick={() => handleTimer(CleaningTimerEventType.RESUME)}>
+                  Resume
+                </Button>
+              )}
+              {timerActions.includes(CleaningTimerEventType.FINISH) && (
+                <Button
+                  className={timer.state === "running" ? "col-span-2" : ""}
+                  onClick={() => handleTimer(CleaningTimerEventType.FINISH)}
+                >
+                  Finish
+                </Button>
+              )}
             </div>
           </div>
 
@@ -310,6 +474,62 @@ export function RoomDetailsSheet({
               </div>
             </div>
 
+            {/* Assignee */}
+            {canAssign && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-gray-700">
+                  Assigned To
+                </h4>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    variant={assignedTo === null ? "default" : "outline"}
+                    onClick={() => setAssignedTo(null)}
+                  >
+                    Unassigned
+                  </Button>
+                  {assignableStaff.map((member) => (
+                    <Button
+                      key={member.id}
+                      variant={assignedTo === member.id ? "default" : "outline"}
+                      onClick={() => setAssignedTo(member.id)}
+                    >
+                      {member.name || member.email}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Cleaning Checklist */}
+            {checklist && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-medium text-gray-700">
+                    {checklist.name}
+                  </h4>
+                  <span className="text-xs text-gray-500">
+                    {checklist.steps.length - remainingSteps.length}/{checklist.steps.length} done
+                  </span>
+                </div>
+                <div className="space-y-2">
+                  {checklist.steps.map((step) => {
+                    const done = completedSteps.includes(step.id);
+                    return (
+                      <Button
+                        key={step.id}
+                        variant={done ? "default" : "outline"}
+                        onClick={() => toggleStep(step.id)}
+                        className="w-full justify-start"
+                      >
+                        {done ? <CheckCircle2 /> : <Circle />}
+                        {step.label}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Housekeeping Note */}
             <div className="space-y-2">
               <h4 className="text-sm font-medium text-gray-700">
@@ -322,6 +542,49 @@ export function RoomDetailsSheet({
                 className="min-h-24"
               />
             </div>
+
+            {/* History */}
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-700">History</h4>
+              {isOffline ? (
+                <p className="text-sm text-gray-500">History is available when online</p>
+              ) : isHistoryLoading ? (
+                <p className="text-sm text-gray-500">Loading history...</p>
+              ) : history.length === 0 ? (
+                <p className="text-sm text-gray-500">No changes recorded yet</p>
+              ) : (
+                <ol className="border-l pl-4 space-y-4">
+                  {history.map((event) => (
+                    <li key={event.id} className="relative">
+                      <div className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-gray-400"></div>
+                      <div className="text-sm font-medium">
+                        {event.type === RoomAssignmentEventType.CREATED && "Created · "}
+                        {event.type === RoomAssignmentEventType.DELETED && "Deleted · "}
+                        {event.type === RoomAssignmentEventType.ARCHIVED && "Archived · "}
+                        {event.actor ? event.actor.name || event.actor.email : "System"}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(event.createdAt).toLocaleString()} · {SOURCE_LABELS[event.source]}
+                        {event.deviceTime &&
+                          ` · made on device ${new Date(event.deviceTime).toLocaleString()}`}
+                      </div>
+                      {event.type === RoomAssignmentEventType.UPDATED && (
+                        <ul className="mt-1 space-y-0.5 text-sm text-gray-700">
+                          {event.changes.map((change) => (
+                            <li key={change.field} className="break-words">
+                              {fieldLabel(change.field)}:{" "}
+                              {showsPreviousValue(change) &&
+                                `${formatChangeValue(change.field, change.from, userName)} → `}
+                              {formatChangeValue(change.field, change.to, userName)}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
           </div>
         </div>
 
@@ -354,8 +617,41 @@ export function RoomDetailsSheet({
             >
               {isSyncing ? "Syncing..." : "Submit Changes"}
             </Button>
+            {canAssign && (
+              <Button
+                onClick={() => setIsInspectionOpen(true)}
+                variant="outline"
+                className="w-full mt-2"
+                disabled={isOffline}
+              >
+                {isOffline ? "Inspection needs a connection" : "Inspect Room"}
+              </Button>
+            )}
+            {canDelete && (
+              <Button
+                onClick={handleDelete}
+                variant="ghost"
+                className="w-full mt-2 text-red-600 hover:text-red-700"
+                disabled={deleteRoomAssignment.isPending}
+              >
+                Delete Assignment
+              </Button>
+            )}
           </div>
         </div>
+
+        {/* Nested so the checklist opens on top of the room details */}
+        {canAssign && (
+          <InspectionSheet
+            roomId={room.id}
+            roomNumber={room.roomNumber}
+            isOpen={isInspectionOpen}
+            onClose={() => {
+              setIsInspectionOpen(false);
+              onClose();
+            }}
+          />
+        )}
       </SheetContent>
     </Sheet>
   );
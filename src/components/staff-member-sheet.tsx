@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { toPascalCase } from "@/lib/utils";
+import { useUpdateUser } from "@/hooks/use-staff";
+import { useProperties } from "@/hooks/use-properties";
+import { StaffMember, StaffShift, UserRole } from "@/types/user";
+
+interface StaffMemberSheetProps {
+  member: StaffMember | null;
+  isOpen: boolean;
+  onClose: () => void;
+  // Role and status changes are left to admins; others only see the details
+  canManage: boolean;
+  isSelf: boolean;
+}
+
+const roleOptions = [UserRole.ATTENDANT, UserRole.SUPERVISOR, UserRole.MANAGER, UserRole.ADMIN];
+const shiftOptions = [StaffShift.MORNING, StaffShift.AFTERNOON, StaffShift.NIGHT];
+
+export function StaffMemberSheet({
+  member,
+  isOpen,
+  onClose,
+  canManage,
+  isSelf,
+}: StaffMemberSheetProps) {
+  const updateUser = useUpdateUser();
+  const { data: properties = [] } = useProperties();
+  const [role, setRole] = useState<UserRole>(member?.role ?? UserRole.ATTENDANT);
+  const [shift, setShift] = useState<StaffShift | null>(member?.shift ?? null);
+  const [propertyIds, setPropertyIds] = useState<string[]>(member?.propertyIds ?? []);
+
+  // Sync form state when the member changes
+  useEffect(() => {
+    if (member) {
+      setRole(member.role);
+      setShift(member.shift);
+      setPropertyIds(member.propertyIds);
+    }
+  }, [member]);
+
+  if (!member) return null;
+
+  const displayName = member.name || member.email;
+  const propertiesChanged =
+    propertyIds.length !== member.propertyIds.length ||
+    propertyIds.some((id) => !member.propertyIds.includes(id));
+
+  const toggleProperty = (propertyId: string) => {
+    setPropertyIds((current) =>
+      current.includes(propertyId) ? current.filter((id) => id !== propertyId) : [...current, propertyId]
+    );
+  };
+
+  const handleSave = () => {
+    updateUser.mutate(
+      {
+        id: member.id,
+        data: {
+          ...(role !== member.role && { role }),
+          ...(shift !== member.shift && { shift }),
+          ...(propertiesChanged && { propertyIds }),
+        },
+      },
+      {
+        onSuccess: () => {
+          toast.success(`${displayName} updated`);
+          onClose();
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  const handleToggleActive = () => {
+    const action = member.active ? "Deactivate" : "Reactivate";
+    if (!window.confirm(`${action} ${displayName}?`)) return;
+
+    updateUser.mutate(
+      { id: member.id, data: { active: !member.active } },
+      {
+        onSuccess: () => {
+          toast.success(`${displayName} ${member.active ? "deactivated" : "reactivated"}`);
+          onClose();
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  const hasChanges = role !== member.role || shift !== member.shift || propertiesChanged;
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onClose}>
+      <SheetContent side="bottom" className="h-auto max-h-[90vh] flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="text-xl">{displayName}</SheetTitle>
+          <SheetDescription>{member.email}</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-6">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <h3 className="text-xs font-medium text-gray-600 mb-1">Rooms Assigned</h3>
+              <p className="font-semibold">{member.roomsAssigned}</p>
+            </div>
+            <div>
+              <h3 className="text-xs font-medium text-gray-600 mb-1">Completed Today</h3>
+              <p className="font-semibold">{member.roomsCompletedToday}</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-gray-700">Role</h4>
+            <div className="grid grid-cols-2 gap-2">
+              {roleOptions.map((option) => (
+                <Button
+                  key={option}
+                  variant={role === option ? "default" : "outline"}
+                  onClick={() => setRole(option)}
+                  // Admins cannot demote themselves
+                  disabled={!canManage || (isSelf && option !== UserRole.ADMIN)}
+                >
+                  {toPascalCase(option)}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-gray-700">Shift</h4>
+            <div className="grid grid-cols-2 gap-2">
+              {shiftOptions.map((option) => (
+                <Button
+                  key={option}
+                  variant={shift === option ? "default" : "outline"}
+                  onClick={() => setShift(option)}
+                  disabled={!canManage}
+                >
+                  {toPascalCase(option)}
+                </Button>
+              ))}
+              <Button
+                variant={shift === null ? "default" : "outline"}
+                onClick={() => setShift(null)}
+                disabled={!canManage}
+              >
+                Off Rota
+              </Button>
+            </div>
+          </div>
+
+          {properties.length > 1 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-700">Properties</h4>
+              <div className="grid grid-cols-2 gap-2">
+                {properties.map((property) => (
+                  <Button
+                    key={property.id}
+                    variant={propertyIds.includes(property.id) ? "default" : "outline"}
+                    onClick={() => toggleProperty(property.id)}
+                    disabled={!canManage}
+                  >
+                    {property.code}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {canManage && (
+          <SheetFooter className="border-t p-4 space-y-2">
+            <Button
+              onClick={handleSave}
+              className="w-full"
+              size="lg"
+              disabled={!hasChanges || updateUser.isPending}
+            >
+              {updateUser.isPending ? "Saving..." : "Save Changes"}
+            </Button>
+            {!isSelf && (
+              <Button
+                onClick={handleToggleActive}
+                variant="ghost"
+                className={`w-full ${member.active ? "text-red-600 hover:text-red-700" : ""}`}
+                disabled={updateUser.isPending}
+              >
+                {member.active ? "Deactivate Account" : "Reactivate Account"}
+              </Button>
+            )}
+          </SheetFooter>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
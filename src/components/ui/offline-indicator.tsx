@@ -7,10 +7,11 @@ import {
   RefreshCw,
   AlertCircle,
   CheckCircle,
+  Clock,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { offlineManager } from "@/lib/offline/offline-manager";
-import { backgroundSyncService } from "@/lib/offline/background-sync";
+import { syncEngine, SyncEngineState } from "@/lib/offline/sync-engine";
 
 interface OfflineIndicatorProps {
   className?: string;
@@ -22,8 +23,8 @@ export function OfflineIndicator({
   showText = true,
 }: OfflineIndicatorProps) {
   const [isOffline, setIsOffline] = useState(!navigator.onLine);
-  const [syncStatus, setSyncStatus] = useState<"idle" | "syncing" | "error">(
-    "idle"
+  const [syncState, setSyncState] = useState<SyncEngineState>(
+    syncEngine.getState()
   );
   const [pendingSyncCount, setPendingSyncCount] = useState(0);
 
@@ -35,12 +36,8 @@ export function OfflineIndicator({
     window.addEventListener("online", handleOnline);
     window.addEventListener("offline", handleOffline);
 
-    // Listen for sync status changes
-    const handleSyncStatusChange = (status: "idle" | "syncing" | "error") => {
-      setSyncStatus(status);
-    };
-
-    offlineManager.on("sync-status-changed", handleSyncStatusChange);
+    // Listen for sync engine state changes
+    syncEngine.on("state-changed", setSyncState);
 
     // Update pending sync count
     const updatePendingSyncCount = async () => {
@@ -52,28 +49,35 @@ export function OfflineIndicator({
       }
     };
 
-    // Update count initially and on data changes
+    // Update count initially, when changes are queued and after each sync run
     updatePendingSyncCount();
-    offlineManager.on("data-updated", updatePendingSyncCount);
+    offlineManager.on("room-updated", updatePendingSyncCount);
+    syncEngine.on("sync-completed", updatePendingSyncCount);
 
     return () => {
       window.removeEventListener("online", handleOnline);
       window.removeEventListener("offline", handleOffline);
-      offlineManager.off("sync-status-changed", handleSyncStatusChange);
-      offlineManager.off("data-updated", updatePendingSyncCount);
+      syncEngine.off("state-changed", setSyncState);
+      offlineManager.off("room-updated", updatePendingSyncCount);
+      syncEngine.off("sync-completed", updatePendingSyncCount);
     };
   }, []);
 
+  const isSyncing = syncState === "pulling" || syncState === "pushing";
+
   const getStatusIcon = () => {
-    if (syncStatus === "syncing") {
+    if (isSyncing) {
       return <RefreshCw className="h-4 w-4 animate-spin" />;
     }
-    if (syncStatus === "error") {
+    if (syncState === "error") {
       return <AlertCircle className="h-4 w-4 text-red-500" />;
     }
     if (isOffline) {
       return <WifiOff className="h-4 w-4 text-orange-500" />;
     }
+    if (syncState === "backoff") {
+      return <Clock className="h-4 w-4 text-amber-500" />;
+    }
     if (pendingSyncCount === 0) {
       return <CheckCircle className="h-4 w-4 text-green-500" />;
     }
@@ -81,10 +85,10 @@ export function OfflineIndicator({
   };
 
   const getStatusText = () => {
-    if (syncStatus === "syncing") {
+    if (isSyncing) {
       return "Syncing...";
     }
-    if (syncStatus === "error") {
+    if (syncState === "error") {
       return "Sync Error";
     }
     if (isOffline) {
@@ -92,6 +96,9 @@ export function OfflineIndicator({
         ? `Offline (${pendingSyncCount} pending)`
         : "Offline";
     }
+    if (syncState === "backoff") {
+      return `Retrying (${pendingSyncCount} pending)`;
+    }
     if (pendingSyncCount > 0) {
       return `${pendingSyncCount} pending sync`;
     }
@@ -99,16 +106,17 @@ export function OfflineIndicator({
   };
 
   const getStatusColor = () => {
-    if (syncStatus === "error") return "text-red-500";
+    if (syncState === "error") return "text-red-500";
     if (isOffline) return "text-orange-500";
-    if (syncStatus === "syncing") return "text-blue-500";
+    if (isSyncing) return "text-blue-500";
+    if (syncState === "backoff") return "text-amber-500";
     if (pendingSyncCount === 0) return "text-green-500";
     return "text-blue-500";
   };
 
   const handleClick = () => {
     if (!isOffline && pendingSyncCount > 0) {
-      backgroundSyncService.forcSync();
+      syncEngine.syncNow({ pull: true });
     }
   };
 
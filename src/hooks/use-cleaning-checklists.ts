@@ -0,0 +1,49 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
+import { CleaningChecklistTemplate } from '@/types/checklist';
+import { offlineManager } from '@/lib/offline/offline-manager';
+
+// Query keys
+export const cleaningChecklistKeys = {
+  all: ['cleaning-checklists'] as const,
+};
+
+// Checklists are read from the offline cache the sync engine keeps fresh;
+// the server is only asked when nothing has been cached yet
+async function fetchChecklistTemplates(): Promise<CleaningChecklistTemplate[]> {
+  await offlineManager.init();
+  const cached = await offlineManager.getChecklistTemplates();
+
+  if (cached.length > 0 || !navigator.onLine) {
+    return cached;
+  }
+
+  const response = await fetch('/api/cleaning-checklists');
+  if (!response.ok) {
+    throw new Error(`Failed to fetch cleaning checklists: ${response.status}`);
+  }
+
+  const templates: CleaningChecklistTemplate[] = await response.json();
+  await offlineManager.saveChecklistTemplates(templates);
+  return templates;
+}
+
+export function useCleaningChecklists() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const handleChecklistsUpdated = (templates: CleaningChecklistTemplate[]) => {
+      queryClient.setQueryData(cleaningChecklistKeys.all, templates);
+    };
+
+    offlineManager.on('checklists-updated', handleChecklistsUpdated);
+    return () => offlineManager.off('checklists-updated', handleChecklistsUpdated);
+  }, [queryClient]);
+
+  return useQuery({
+    queryKey: cleaningChecklistKeys.all,
+    queryFn: fetchChecklistTemplates,
+    staleTime: Infinity, // Updated through the checklists-updated event
+    retry: false,
+  });
+}
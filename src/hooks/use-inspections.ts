@@ -0,0 +1,56 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { InspectionTemplate, RecordInspectionData } from '@/types/inspection';
+import { syncEngine } from '@/lib/offline/sync-engine';
+
+// Query keys
+export const inspectionKeys = {
+  all: ['inspections'] as const,
+  templateForRoom: (roomId: number) => [...inspectionKeys.all, 'template', roomId] as const,
+};
+
+async function fetchTemplateForRoom(roomId: number): Promise<InspectionTemplate> {
+  const response = await fetch(`/api/room-assignments/${roomId}/inspection-template`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error || `Failed to fetch inspection checklist: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+export function useInspectionTemplate(roomId: number | undefined, enabled = true) {
+  return useQuery({
+    queryKey: inspectionKeys.templateForRoom(roomId ?? 0),
+    queryFn: () => fetchTemplateForRoom(roomId!),
+    enabled: enabled && roomId !== undefined,
+    staleTime: 1000 * 60 * 10, // Checklists rarely change
+    retry: false,
+  });
+}
+
+// Inspections are scored on the server, so they are recorded online only;
+// the room's new status comes back through the change feed
+export function useRecordInspection() {
+  return useMutation({
+    mutationFn: async ({ roomId, data }: { roomId: number; data: RecordInspectionData }) => {
+      const response = await fetch(`/api/room-assignments/${roomId}/inspections`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(result?.error || `Failed to record inspection: ${response.status}`);
+      }
+
+      return result as { inspection: { score: number; passed: boolean } };
+    },
+    onSuccess: () => {
+      syncEngine.syncNow({ pull: true });
+    },
+  });
+}
@@ -0,0 +1,81 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useEffect, useState } from 'react';
+import { Property } from '@/types/property';
+import { offlineManager } from '@/lib/offline/offline-manager';
+import { getActivePropertyId, LEGACY_PROPERTY_ID, setActivePropertyId } from '@/lib/active-property';
+import { setActivePropertyTimeZone } from '@/lib/property-time';
+
+// Query keys
+export const propertyKeys = {
+  all: ['properties'] as const,
+};
+
+// The list is cached offline; the server copy wins whenever it can be reached
+async function fetchProperties(): Promise<Property[]> {
+  await offlineManager.init();
+
+  if (!navigator.onLine) {
+    return offlineManager.getCachedProperties();
+  }
+
+  const response = await fetch('/api/properties');
+  if (!response.ok) {
+    const cached = await offlineManager.getCachedProperties();
+    if (cached.length > 0) return cached;
+
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error || `Failed to fetch properties: ${response.status}`);
+  }
+
+  const properties: Property[] = await response.json();
+  await offlineManager.saveProperties(properties);
+  return properties;
+}
+
+export function useProperties() {
+  return useQuery({
+    queryKey: propertyKeys.all,
+    queryFn: fetchProperties,
+    staleTime: 1000 * 60 * 10, // Properties are rarely added
+  });
+}
+
+/**
+ * The property the dashboard works in and a way to switch. Until the user
+ * picks one, or when the stored one is no longer theirs, their first
+ * property is used.
+ */
+export function useActiveProperty() {
+  const queryClient = useQueryClient();
+  const { data: properties = [], isLoading } = useProperties();
+  const [activeId, setActiveId] = useState<string | null>(() => getActivePropertyId());
+
+  const switchProperty = useCallback(
+    async (property: Property) => {
+      setActivePropertyId(property.id);
+      setActivePropertyTimeZone(property.timeZone);
+      await offlineManager.setProperty(property.id);
+      setActiveId(property.id);
+
+      // Everything else cached came from the previous property
+      queryClient.resetQueries({ predicate: (query) => query.queryKey[0] !== propertyKeys.all[0] });
+    },
+    [queryClient]
+  );
+
+  const activeProperty = properties.find((property) => property.id === activeId) ?? null;
+
+  useEffect(() => {
+    if (activeProperty) {
+      setActivePropertyTimeZone(activeProperty.timeZone);
+      return;
+    }
+
+    const fallback = properties.find((property) => property.id === LEGACY_PROPERTY_ID) ?? properties[0];
+    if (fallback) {
+      switchProperty(fallback).catch((error) => console.error('Failed to switch property:', error));
+    }
+  }, [activeProperty, properties, switchProperty]);
+
+  return { properties, activeProperty, switchProperty, isLoading };
+}
@@ -0,0 +1,32 @@
+import { useQuery } from '@tanstack/react-query';
+import { CleaningTimeReport } from '@/types/timer';
+
+// Query keys
+export const reportKeys = {
+  all: ['reports'] as const,
+  cleaningTime: (filters: { from?: string; to?: string }) => [...reportKeys.all, 'cleaning-time', filters] as const,
+};
+
+// Reports are computed on the server; there is no offline copy
+async function fetchCleaningTimeReport(filters: { from?: string; to?: string }): Promise<CleaningTimeReport> {
+  const params = new URLSearchParams();
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+
+  const response = await fetch(`/api/reports/cleaning-time?${params}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error || `Failed to fetch cleaning time report: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+export function useCleaningTimeReport(filters: { from?: string; to?: string }) {
+  return useQuery({
+    queryKey: reportKeys.cleaningTime(filters),
+    queryFn: () => fetchCleaningTimeReport(filters),
+    staleTime: 1000 * 60, // Rooms in progress keep counting
+  });
+}
@@ -1,7 +1,9 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { RoomAssignment, CreateRoomAssignmentData, UpdateRoomAssignmentData } from '@/types/room';
 import { offlineManager } from '@/lib/offline/offline-manager';
-import { backgroundSyncService } from '@/lib/offline/background-sync';
+import { SyncQueueItem } from '@/lib/offline/indexeddb';
+import { syncEngine, SyncResult } from '@/lib/offline/sync-engine';
+import { PROPERTY_HEADER } from '@/lib/active-property';
 import { useEffect } from 'react';
 import { toast } from 'react-toastify';
 
@@ -41,7 +43,10 @@ async function fetchRoomAssignmentsUnified(): Promise<RoomAssignment[]> {
     
     if (isOnline) {
       console.log('🔄 fetchRoomAssignmentsUnified: No local data found, fetching from server');
-      const response = await fetch('/api/room-assignments');
+      const propertyId = offlineManager.getPropertyId();
+      const response = await fetch('/api/room-assignments', {
+        headers: propertyId ? { [PROPERTY_HEADER]: propertyId } : undefined,
+      });
       console.log(`📡 fetchRoomAssignmentsUnified: Server response status: ${response.status}`);
       
       if (!response.ok) {
@@ -135,6 +140,22 @@ export function useRoomAssignments() {
           debouncedInvalidation('data-updated');
         };
 
+        // A room created offline got its server ID: move cached copies over
+        // so open views keep pointing at the same room
+        const handleRoomIdRemapped = (tempId: number, serverId: number) => {
+          console.log(`🔄 useRoomAssignments: Room ${tempId} is now ${serverId}`);
+          queryClient.setQueryData<RoomAssignment[]>(roomAssignmentKeys.all, (rooms) =>
+            rooms?.map(room => room.id === tempId ? { ...room, id: serverId } : room)
+          );
+          queryClient.removeQueries({ queryKey: roomAssignmentKeys.detail(tempId.toString()) });
+        };
+
+        // Another property's rooms are showing now; drop the old ones at once
+        const handlePropertyChanged = (propertyId: string) => {
+          console.log('🔄 useRoomAssignments: Switched to property', propertyId);
+          queryClient.resetQueries({ queryKey: roomAssignmentKeys.all });
+        };
+
         const handleSyncStatusChanged = (status: 'idle' | 'syncing' | 'error') => {
           console.log('🔄 useRoomAssignments: Sync status changed:', status);
           if (status === 'idle') {
@@ -147,32 +168,34 @@ export function useRoomAssignments() {
         console.log('🔄 useRoomAssignments: Setting up event listeners');
         offlineManager.on('room-updated', handleRoomUpdated);
         offlineManager.on('data-updated', handleDataUpdated);
+        offlineManager.on('room-id-remapped', handleRoomIdRemapped);
         offlineManager.on('sync-status-changed', handleSyncStatusChanged);
+        offlineManager.on('property-changed', handlePropertyChanged);
 
-        // Listen for background sync events
-        backgroundSyncService.on('sync-completed', (results) => {
-          console.log('🔄 useRoomAssignments: Background sync completed:', results);
+        // Listen for sync engine events; reconnect handling lives in the engine
+        const handleSyncCompleted = (results: SyncResult[]) => {
+          console.log('🔄 useRoomAssignments: Sync completed:', results);
           // Only invalidate if sync actually completed successfully
           if (results && results.length > 0) {
-            debouncedInvalidation('background-sync-completed');
+            debouncedInvalidation('sync-engine-completed');
           }
-        });
+        };
 
-        // Listen for network status changes
-        const handleOnline = () => {
-          console.log('🌐 useRoomAssignments: Network restored, triggering background sync');
-          backgroundSyncService.forcSync();
-          // Don't immediately invalidate - let the sync completion handle it
+        // The server refused a queued change (e.g. not allowed for this role);
+        // the room has already been restored, so just tell the user why
+        const handleItemRejected = (_item: SyncQueueItem, error: Error) => {
+          toast.error(`Change not saved: ${error.message}`);
+          debouncedInvalidation('item-rejected');
         };
 
-        const handleOffline = () => {
-          console.log('🌐 useRoomAssignments: Network lost, switching to offline-only mode');
+        // Timer taps for a room that is no longer ours were dropped
+        const handleTimerRejected = (_roomId: number, error: Error) => {
+          toast.error(`Cleaning time not saved: ${error.message}`);
         };
 
-        if (typeof window !== 'undefined') {
-          window.addEventListener('online', handleOnline);
-          window.addEventListener('offline', handleOffline);
-        }
+        syncEngine.on('sync-completed', handleSyncCompleted);
+        syncEngine.on('item-rejected', handleItemRejected);
+        syncEngine.on('timer-rejected', handleTimerRejected);
 
         console.log('✅ useRoomAssignments: All event listeners set up successfully');
 
@@ -181,11 +204,12 @@ export function useRoomAssignments() {
           console.log('🧹 useRoomAssignments: Cleaning up event listeners');
           offlineManager.off('room-updated', handleRoomUpdated);
           offlineManager.off('data-updated', handleDataUpdated);
+          offlineManager.off('room-id-remapped', handleRoomIdRemapped);
           offlineManager.off('sync-status-changed', handleSyncStatusChanged);
-          if (typeof window !== 'undefined') {
-            window.removeEventListener('online', handleOnline);
-            window.removeEventListener('offline', handleOffline);
-          }
+          offlineManager.off('property-changed', handlePropertyChanged);
+          syncEngine.off('sync-completed', handleSyncCompleted);
+          syncEngine.off('item-rejected', handleItemRejected);
+          syncEngine.off('timer-rejected', handleTimerRejected);
         };
       } catch (error) {
         console.error('❌ useRoomAssignments: Failed to initialize offline-first system:', error);
@@ -217,29 +241,17 @@ export function useRoomAssignments() {
   });
 }
 
-// API functions
-async function createRoomAssignment(data: CreateRoomAssignmentData): Promise<RoomAssignment> {
-  const response = await fetch('/api/room-assignments', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(data),
-  });
-  
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error || 'Failed to create room assignment');
-  }
-  
-  return response.json();
-}
-
 export function useCreateRoomAssignment() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: createRoomAssignment,
+    mutationFn: async (data: CreateRoomAssignmentData) => {
+      // Saved locally under a temporary ID; the sync engine posts it and
+      // remaps the ID when the server answers
+      const room = await offlineManager.createRoom(data);
+      syncEngine.syncNow();
+      return room;
+    },
     onSuccess: () => {
       // Invalidate and refetch room assignments
       queryClient.invalidateQueries({ queryKey: roomAssignmentKeys.all });
@@ -277,6 +289,26 @@ export function useUpdateRoomAssignment() {
   return updateRoomAssignment;
 }
 
+export function useDeleteRoomAssignment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      // Removed locally right away; the sync engine sends the deletion
+      await offlineManager.deleteRoom(id);
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: roomAssignmentKeys.all });
+      toast.success('Room assignment deleted');
+    },
+    onError: (error) => {
+      console.error('Failed to delete room:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete room assignment');
+    },
+  });
+}
+
 // Additional utility hooks
 export function useRoomAssignmentsByStatus(status?: string) {
   const { data: assignments, ...rest } = useRoomAssignments();
@@ -0,0 +1,55 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { ApplyBoardData, GenerateBoardOptions, RoomBoard } from '@/types/board';
+import { syncEngine } from '@/lib/offline/sync-engine';
+import { staffKeys } from '@/hooks/use-staff';
+
+interface ApplyBoardResponse {
+  results: Array<{ id: number; success: boolean; error?: string }>;
+  succeeded: number;
+  failed: number;
+}
+
+async function postBoard<T>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || `Request failed: ${response.status}`);
+  }
+
+  return data;
+}
+
+// Boards are generated and saved online only; the result reaches devices
+// through the regular change feed
+export function useGenerateBoard() {
+  return useMutation({
+    mutationFn: (options: GenerateBoardOptions) =>
+      postBoard<RoomBoard>('/api/room-board/preview', options),
+  });
+}
+
+export function useApplyBoard() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (board: ApplyBoardData) => {
+      const result = await postBoard<ApplyBoardResponse>('/api/room-board', board);
+      if (result.failed > 0) {
+        // The board is saved all or nothing, so any failure means none of it
+        throw new Error(result.results.find((item) => !item.success)?.error || 'Board was not saved');
+      }
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: staffKeys.all });
+      syncEngine.syncNow({ pull: true });
+    },
+  });
+}
@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query';
+import { RoomAssignmentEvent } from '@/types/history';
+
+// Query keys
+export const roomHistoryKeys = {
+  all: ['room-history'] as const,
+  room: (roomId: number) => [...roomHistoryKeys.all, roomId] as const,
+};
+
+// The history is kept on the server only; there is no offline copy
+async function fetchRoomHistory(roomId: number): Promise<RoomAssignmentEvent[]> {
+  const response = await fetch(`/api/room-assignments/${roomId}/history`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error || `Failed to fetch room history: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+export function useRoomHistory(roomId: number | undefined, enabled = true) {
+  return useQuery({
+    queryKey: roomHistoryKeys.room(roomId ?? 0),
+    queryFn: () => fetchRoomHistory(roomId!),
+    // Rooms created offline have no history until their create has synced
+    enabled: enabled && roomId !== undefined && roomId > 0,
+    staleTime: 1000 * 30,
+    retry: false,
+  });
+}
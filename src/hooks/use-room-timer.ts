@@ -0,0 +1,78 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { CleaningTimerEvent, CleaningTimerEventType } from '@/types/timer';
+import { TimerEventLocal } from '@/lib/offline/indexeddb';
+import { offlineManager } from '@/lib/offline/offline-manager';
+import { syncEngine } from '@/lib/offline/sync-engine';
+import { summarizeTimer } from '@/lib/cleaning-timer';
+
+// Query keys
+export const roomTimerKeys = {
+  all: ['room-timer'] as const,
+  room: (roomId: number) => [...roomTimerKeys.all, roomId] as const,
+};
+
+// Local events first; when online the server's list (which includes other
+// devices' taps) replaces the synced part of it
+async function fetchTimerEvents(roomId: number): Promise<TimerEventLocal[]> {
+  await offlineManager.init();
+
+  if (navigator.onLine && roomId > 0) {
+    try {
+      const response = await fetch(`/api/room-assignments/${roomId}/timer-events`);
+      if (response.ok) {
+        const serverEvents: CleaningTimerEvent[] = await response.json();
+        await offlineManager.applyServerTimerEvents(roomId, serverEvents);
+      }
+    } catch (error) {
+      console.warn(`Failed to refresh timer events for room ${roomId}:`, error);
+    }
+  }
+
+  return offlineManager.getTimerEvents(roomId);
+}
+
+/**
+ * A room's cleaning timer, ticking every second while it runs
+ */
+export function useRoomTimer(roomId: number | undefined) {
+  const queryClient = useQueryClient();
+  const [now, setNow] = useState(() => new Date());
+
+  const query = useQuery({
+    queryKey: roomTimerKeys.room(roomId ?? 0),
+    queryFn: () => fetchTimerEvents(roomId!),
+    enabled: roomId !== undefined,
+    staleTime: 1000 * 60, // Local taps refresh through the timer-updated event
+  });
+
+  useEffect(() => {
+    const handleTimerUpdated = async (updatedRoomId: number) => {
+      if (updatedRoomId !== roomId) return;
+      queryClient.setQueryData(roomTimerKeys.room(updatedRoomId), await offlineManager.getTimerEvents(updatedRoomId));
+    };
+
+    offlineManager.on('timer-updated', handleTimerUpdated);
+    return () => offlineManager.off('timer-updated', handleTimerUpdated);
+  }, [queryClient, roomId]);
+
+  const summary = summarizeTimer(query.data ?? [], now);
+
+  useEffect(() => {
+    if (summary.state !== 'running') return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [summary.state]);
+
+  return { ...query, summary };
+}
+
+export function useRecordTimerEvent() {
+  return useMutation({
+    mutationFn: async ({ roomId, type, reason }: { roomId: number; type: CleaningTimerEventType; reason?: string }) => {
+      const event = await offlineManager.recordTimerEvent(roomId, type, reason);
+      syncEngine.syncNow();
+      return event;
+    },
+  });
+}
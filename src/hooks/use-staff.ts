@@ -0,0 +1,70 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { CreateUserData, SafeUser, StaffMember, UpdateUserData } from '@/types/user';
+
+// Query keys
+export const staffKeys = {
+  all: ['staff'] as const,
+};
+
+// Staff administration needs the server; there is no offline copy
+async function fetchStaff(): Promise<StaffMember[]> {
+  const response = await fetch('/api/staff');
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error || `Failed to fetch staff: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+async function sendUserRequest<T>(url: string, method: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error || `Request failed: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+export function useStaff(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: staffKeys.all,
+    queryFn: fetchStaff,
+    enabled: options.enabled ?? true,
+    staleTime: 1000 * 60, // Room counts move through the day
+  });
+}
+
+export function useInviteUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    // The response carries the temporary password when none was given
+    mutationFn: (data: CreateUserData) =>
+      sendUserRequest<SafeUser & { temporaryPassword?: string }>('/api/users', 'POST', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: staffKeys.all });
+    },
+  });
+}
+
+export function useUpdateUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateUserData }) =>
+      sendUserRequest<SafeUser>(`/api/users/${id}`, 'PATCH', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: staffKeys.all });
+    },
+  });
+}
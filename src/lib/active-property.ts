@@ -0,0 +1,29 @@
+/**
+ * Active property
+ * The property picked in the dashboard switcher is kept in a cookie, so every
+ * request the app makes is scoped to it without each call passing it along.
+ * Integrations name the property in the X-Property-Id header instead.
+ */
+
+export const PROPERTY_COOKIE = 'propertyId';
+export const PROPERTY_HEADER = 'X-Property-Id';
+
+// The property every room belonged to before the app knew about properties
+export const LEGACY_PROPERTY_ID = 'default';
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365;
+
+export function getActivePropertyId(): string | null {
+  if (typeof document === 'undefined') return null;
+
+  const cookie = document.cookie
+    .split(';')
+    .map((part) => part.trim().split('='))
+    .find(([name]) => name === PROPERTY_COOKIE);
+
+  return cookie?.[1] ? decodeURIComponent(cookie[1]) : null;
+}
+
+export function setActivePropertyId(propertyId: string): void {
+  document.cookie = `${PROPERTY_COOKIE}=${encodeURIComponent(propertyId)}; path=/; max-age=${ONE_YEAR_SECONDS}; samesite=lax`;
+}
@@ -0,0 +1,91 @@
+/**
+ * API error responses
+ * Every route answers a failed request with `{ error, code, details? }`:
+ * `error` is meant for people, `code` for clients to branch on and `details`
+ * lists the fields that failed validation
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Prisma } from '@/generated/prisma';
+
+export type ApiErrorCode =
+  | 'BAD_REQUEST'
+  | 'VALIDATION_FAILED'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'IDEMPOTENCY_KEY_REUSED'
+  | 'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+  | 'INTERNAL_ERROR';
+
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode | 'UNAUTHENTICATED' | 'FORBIDDEN';
+  details?: z.ZodError['issues'];
+}
+
+/**
+ * An error response; `extra` adds fields to the body, e.g. the current row of
+ * a version conflict
+ */
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  { extra, headers }: { extra?: Record<string, unknown>; headers?: HeadersInit } = {}
+): NextResponse {
+  return NextResponse.json({ error: message, code, ...extra }, { status, headers });
+}
+
+export function badRequest(message: string): NextResponse {
+  return apiError(400, 'BAD_REQUEST', message);
+}
+
+export function validationFailed(error: z.ZodError, message = 'Validation failed'): NextResponse {
+  return apiError(400, 'VALIDATION_FAILED', message, { extra: { details: error.issues } });
+}
+
+export function notFound(message: string): NextResponse {
+  return apiError(404, 'NOT_FOUND', message);
+}
+
+export function conflict(message: string, options?: Parameters<typeof apiError>[3]): NextResponse {
+  return apiError(409, 'CONFLICT', message, options);
+}
+
+// Services wrap what they catch, so the Prisma error may sit a few causes deep
+function prismaErrorOf(error: unknown): Prisma.PrismaClientKnownRequestError | null {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current instanceof Prisma.PrismaClientKnownRequestError) {
+      return current;
+    }
+  }
+  return null;
+}
+
+/**
+ * The response for an error a route did not handle itself: validation errors
+ * and dangling references become 400, unique violations 409, missing records
+ * 404 and anything else 500 with `fallback` when the error has no message
+ */
+export function errorResponse(error: unknown, fallback: string): NextResponse {
+  if (error instanceof z.ZodError) {
+    return validationFailed(error);
+  }
+
+  const prismaError = prismaErrorOf(error);
+  if (prismaError?.code === 'P2002') {
+    const target = prismaError.meta?.target;
+    const fields = Array.isArray(target) ? target.join(', ') : target;
+    return conflict(fields ? `A record with this ${fields} already exists` : 'The record already exists');
+  }
+  if (prismaError?.code === 'P2003') {
+    return badRequest('A record it refers to does not exist');
+  }
+  if (prismaError?.code === 'P2025') {
+    return notFound('The record does not exist');
+  }
+
+  const message = error instanceof Error ? error.message : fallback;
+  return apiError(500, 'INTERNAL_ERROR', message);
+}
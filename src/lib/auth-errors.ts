@@ -0,0 +1,20 @@
+/**
+ * Structured auth error responses
+ * Shared by route handlers and the middleware, so it must stay edge-safe
+ */
+
+import { NextResponse } from 'next/server';
+
+export function unauthenticated(message = 'Authentication required'): NextResponse {
+  return NextResponse.json(
+    { error: message, code: 'UNAUTHENTICATED' },
+    { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+  );
+}
+
+export function forbidden(message = 'Insufficient permissions'): NextResponse {
+  return NextResponse.json(
+    { error: message, code: 'FORBIDDEN' },
+    { status: 403 }
+  );
+}
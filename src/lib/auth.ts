@@ -4,6 +4,7 @@ import { PrismaAdapter } from "@next-auth/prisma-adapter";
 import { prisma } from "./prisma";
 import bcrypt from "bcryptjs";
 import { z } from "zod";
+import { UserRole } from "@/generated/prisma";
 
 const loginSchema = z.object({
   email: z.string().email(),
@@ -28,7 +29,8 @@ export const authOptions: NextAuthOptions = {
             where: { email },
           });
 
-          if (!user) {
+          // Deactivated accounts are refused like unknown ones
+          if (!user || !user.active) {
             return null;
           }
 
@@ -42,6 +44,7 @@ export const authOptions: NextAuthOptions = {
             id: user.id,
             email: user.email,
             name: user.name,
+            role: user.role,
           };
         } catch (error) {
           return null;
@@ -65,6 +68,7 @@ export const authOptions: NextAuthOptions = {
         token.id = user.id;
         token.email = user.email || undefined;
         token.name = user.name || undefined;
+        token.role = user.role;
         // Add offline capability flag
         token.offlineCapable = true;
         token.loginTime = Date.now();
@@ -76,6 +80,8 @@ export const authOptions: NextAuthOptions = {
         session.user.id = token.id as string;
         session.user.email = token.email as string;
         session.user.name = token.name as string;
+        // Tokens issued before roles existed carry none; treat them as attendants
+        session.user.role = token.role ?? UserRole.ATTENDANT;
         // Pass offline capability to session
         (session as any).offlineCapable = token.offlineCapable;
         (session as any).loginTime = token.loginTime;
@@ -0,0 +1,50 @@
+/**
+ * Change source of a write request
+ * The offline sync engine marks the changes it replays with
+ * `X-Change-Source: offline-sync` and `X-Device-Time`, when the change was
+ * made on the device. Requests made with an API token come from integrations.
+ */
+
+import { RoomAssignmentEventSource } from '@/generated/prisma';
+import type { AuthenticatedUser } from '@/lib/auth-guard';
+
+export interface ChangeSource {
+  source: RoomAssignmentEventSource;
+  deviceTime?: Date;
+}
+
+export const CHANGE_SOURCE_HEADER = 'X-Change-Source';
+export const DEVICE_TIME_HEADER = 'X-Device-Time';
+
+/**
+ * Parses a device timestamp. Returns undefined when absent and null when malformed.
+ */
+export function parseDeviceTime(value: unknown): Date | undefined | null {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const date = typeof value === 'string' ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+}
+
+/**
+ * Returns where a request's changes come from, or null when its
+ * X-Device-Time header is malformed
+ */
+export function changeSourceOf(request: Request, user: AuthenticatedUser): ChangeSource | null {
+  const deviceTime = parseDeviceTime(request.headers.get(DEVICE_TIME_HEADER));
+  if (deviceTime === null) {
+    return null;
+  }
+
+  if (user.via === 'token') {
+    return { source: RoomAssignmentEventSource.INTEGRATION, deviceTime };
+  }
+
+  const source = request.headers.get(CHANGE_SOURCE_HEADER) === 'offline-sync'
+    ? RoomAssignmentEventSource.OFFLINE_SYNC
+    : RoomAssignmentEventSource.WEB;
+
+  return { source, deviceTime };
+}
@@ -0,0 +1,55 @@
+/**
+ * Cleaning checklist helpers
+ * Shared by the server, which refuses CLEAN while steps are open, and the
+ * offline client, which works from cached templates
+ */
+
+import { taskTypeOf } from '@/lib/room-board';
+import { BoardTaskType } from '@/types/board';
+import { CleaningChecklistTemplate, CleaningServiceType } from '@/types/checklist';
+
+interface ChecklistRoom {
+  cleaningType?: CleaningServiceType | null;
+  occupancyStatus?: string | null;
+  completedSteps?: string[] | null;
+}
+
+/**
+ * Service the room gets: the one set on it, otherwise a stay-over for
+ * occupied stays and a departure clean for everything else
+ */
+export function serviceTypeOf(room: ChecklistRoom): CleaningServiceType {
+  if (room.cleaningType) {
+    return room.cleaningType;
+  }
+  return taskTypeOf(room.occupancyStatus) === BoardTaskType.STAY_OVER
+    ? CleaningServiceType.STAY_OVER
+    : CleaningServiceType.DEPARTURE;
+}
+
+/**
+ * The template in use for a service type, from a list ordered newest first
+ */
+export function checklistFor(
+  templates: CleaningChecklistTemplate[],
+  room: ChecklistRoom
+): CleaningChecklistTemplate | undefined {
+  const serviceType = serviceTypeOf(room);
+  return templates.find((template) => template.active && template.serviceType === serviceType);
+}
+
+/**
+ * Steps of the checklist the room has not ticked yet
+ */
+export function openSteps(template: CleaningChecklistTemplate | undefined, room: ChecklistRoom) {
+  const done = new Set(room.completedSteps ?? []);
+  return template ? template.steps.filter((step) => !done.has(step.id)) : [];
+}
+
+/**
+ * Ticks from two copies of a room combined; steps are only ever ticked off
+ * while cleaning, so neither side's ticks are dropped
+ */
+export function mergeCompletedSteps(a?: string[] | null, b?: string[] | null): string[] {
+  return Array.from(new Set([...(a ?? []), ...(b ?? [])])).sort();
+}
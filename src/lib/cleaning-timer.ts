@@ -0,0 +1,106 @@
+/**
+ * Cleaning timer helpers
+ * Turn a room's start/pause/resume/finish events into elapsed time. Used by
+ * the server for reports and by the offline client for the live timer.
+ */
+
+import { CleaningTimerEventType } from '@/types/timer';
+
+export type TimerState = 'idle' | 'running' | 'paused' | 'finished';
+
+interface TimerEventLike {
+  id: string;
+  type: CleaningTimerEventType;
+  occurredAt: string | Date;
+}
+
+export interface TimerSummary {
+  state: TimerState;
+  startedAt: Date | null; // First start
+  finishedAt: Date | null; // Last finish, cleared by a later start
+  runningSince: Date | null; // Start of the current running stretch
+  activeMs: number;
+  pausedMs: number;
+}
+
+// Events each state accepts; anything else is ignored, so a tap recorded twice
+// or on two devices does not skew the totals
+const ALLOWED: Record<TimerState, CleaningTimerEventType[]> = {
+  idle: [CleaningTimerEventType.START],
+  running: [CleaningTimerEventType.PAUSE, CleaningTimerEventType.FINISH],
+  paused: [CleaningTimerEventType.RESUME, CleaningTimerEventType.FINISH],
+  // A room sent back for rework is started again
+  finished: [CleaningTimerEventType.START],
+};
+
+const NEXT_STATE: Record<CleaningTimerEventType, TimerState> = {
+  [CleaningTimerEventType.START]: 'running',
+  [CleaningTimerEventType.PAUSE]: 'paused',
+  [CleaningTimerEventType.RESUME]: 'running',
+  [CleaningTimerEventType.FINISH]: 'finished',
+};
+
+export function allowedTimerEvents(state: TimerState): CleaningTimerEventType[] {
+  return ALLOWED[state];
+}
+
+/**
+ * Replay events in the order they happened. Time between a start or resume
+ * and the next pause or finish is active; time spent paused is counted apart.
+ * While running or paused, the stretch up to `now` is included.
+ */
+export function summarizeTimer(events: TimerEventLike[], now: Date = new Date()): TimerSummary {
+  const ordered = [...events].sort((a, b) =>
+    new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime() || a.id.localeCompare(b.id)
+  );
+
+  const summary: TimerSummary = {
+    state: 'idle',
+    startedAt: null,
+    finishedAt: null,
+    runningSince: null,
+    activeMs: 0,
+    pausedMs: 0,
+  };
+  let stretchStart: Date | null = null;
+
+  for (const event of ordered) {
+    if (!ALLOWED[summary.state].includes(event.type)) continue;
+
+    const at = new Date(event.occurredAt);
+    if (stretchStart) {
+      const elapsed = Math.max(0, at.getTime() - stretchStart.getTime());
+      if (summary.state === 'running') {
+        summary.activeMs += elapsed;
+      } else {
+        summary.pausedMs += elapsed;
+      }
+    }
+
+    summary.state = NEXT_STATE[event.type];
+    stretchStart = summary.state === 'finished' ? null : at;
+    summary.runningSince = summary.state === 'running' ? at : null;
+    summary.startedAt ??= at;
+    summary.finishedAt = summary.state === 'finished' ? at : null;
+  }
+
+  if (stretchStart) {
+    const elapsed = Math.max(0, now.getTime() - stretchStart.getTime());
+    if (summary.state === 'running') {
+      summary.activeMs += elapsed;
+    } else {
+      summary.pausedMs += elapsed;
+    }
+  }
+
+  return summary;
+}
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+}
@@ -0,0 +1,26 @@
+/**
+ * ETag helpers for versioned resources
+ * Room assignments use their version counter as a strong ETag, e.g. `"3"`
+ */
+
+export function toETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Parses an If-Match header into the expected version.
+ * Returns undefined when the header is absent or `*` (no precondition),
+ * and null when the header is malformed.
+ */
+export function parseIfMatch(header: string | null): number | undefined | null {
+  if (header === null || header.trim() === '' || header.trim() === '*') {
+    return undefined;
+  }
+
+  const match = header.trim().match(/^(?:W\/)?"(\d+)"$/);
+  if (!match) {
+    return null;
+  }
+
+  return parseInt(match[1], 10);
+}
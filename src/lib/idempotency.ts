@@ -0,0 +1,101 @@
+/**
+ * Idempotency-Key support for write routes
+ * A request retried with the same key gets the stored response back instead
+ * of being applied a second time
+ */
+
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { IdempotencyScope, IdempotencyService } from '@/lib/services/idempotency.service';
+import { apiError, badRequest, errorResponse } from '@/lib/api-errors';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Runs `handler` at most once per Idempotency-Key of a caller in a property.
+ * Requests without the header pass straight through. The key is claimed
+ * before the handler runs, so a concurrent request with it gets 409 until the
+ * first one finishes and its response afterwards. Reusing a key for a
+ * different request is rejected with 422; server errors release the key so
+ * the request can be retried.
+ */
+export async function withIdempotency(
+  request: Request,
+  scope: IdempotencyScope,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = request.headers.get('Idempotency-Key')?.trim();
+  if (!key) {
+    return handler();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return badRequest('Invalid Idempotency-Key header');
+  }
+
+  const method = request.method;
+  const path = new URL(request.url).pathname;
+  const body = await request.clone().text();
+  const requestHash = createHash('sha256').update(`${method}\n${path}\n${body}`).digest('hex');
+
+  try {
+    const processed = await IdempotencyService.claimMutation({ ...scope, key, method, path, requestHash });
+
+    if (processed) {
+      if (processed.requestHash !== requestHash) {
+        return apiError(422, 'IDEMPOTENCY_KEY_REUSED', 'Idempotency-Key was already used for a different request');
+      }
+
+      if (processed.statusCode === null) {
+        return apiError(409, 'IDEMPOTENCY_REQUEST_IN_PROGRESS', 'A request with this Idempotency-Key is still in progress', {
+          headers: { 'Retry-After': '1' },
+        });
+      }
+
+      return NextResponse.json(processed.response, {
+        status: processed.statusCode,
+        headers: {
+          'Idempotent-Replayed': 'true',
+          ...(processed.etag && { ETag: processed.etag }),
+        },
+      });
+    }
+  } catch (error) {
+    return errorResponse(error, 'Failed to check Idempotency-Key');
+  }
+
+  let response: NextResponse;
+  try {
+    response = await handler();
+  } catch (error) {
+    await release(scope, key);
+    throw error;
+  }
+
+  if (response.status >= 500) {
+    await release(scope, key);
+    return response;
+  }
+
+  try {
+    await IdempotencyService.completeMutation(scope, key, {
+      statusCode: response.status,
+      response: await response.clone().json(),
+      etag: response.headers.get('ETag'),
+    });
+  } catch (error) {
+    // The write itself went through; once the claim times out a retry runs it again
+    console.error('Failed to record idempotent response:', error);
+  }
+
+  return response;
+}
+
+async function release(scope: IdempotencyScope, key: string): Promise<void> {
+  try {
+    await IdempotencyService.releaseMutation(scope, key);
+  } catch (error) {
+    // The claim times out on its own
+    console.error('Failed to release Idempotency-Key:', error);
+  }
+}
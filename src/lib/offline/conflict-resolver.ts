@@ -0,0 +1,245 @@
+/**
+ * Conflict Resolver
+ * Three-way merges offline edits with server changes, using the last-synced
+ * server copy of each room as the common base
+ */
+
+import {
+  indexedDBManager,
+  BaseSnapshot,
+  FieldConflict,
+  FieldValue,
+  MergeableField,
+  RoomAssignmentLocal,
+  RoomConflict,
+  RoomSnapshot,
+} from './indexeddb';
+import { mergeCompletedSteps } from '@/lib/cleaning-checklist';
+import { v4 as uuidv4 } from 'uuid';
+
+export const MERGEABLE_FIELDS: MergeableField[] = [
+  'status',
+  'serviceStatus',
+  'notes',
+  'priority',
+  'occupancy',
+  'assignedTo',
+  'guestName',
+  'occupancyStatus',
+  'bedType',
+  'checkoutTime',
+  'estimatedMinutes',
+  'guestCheckout',
+  'nextCheckin',
+  'cleaningType',
+];
+
+export interface MergeResult {
+  merged: RoomSnapshot;
+  conflicts: FieldConflict[];
+}
+
+export interface ReconcileResult {
+  room: RoomAssignmentLocal;
+  conflict: RoomConflict | null;
+}
+
+// Stored as instants, so the same time must compare equal however it was written
+const TIMESTAMP_FIELDS = new Set<MergeableField>(['checkoutTime', 'guestCheckout', 'nextCheckin']);
+const NUMERIC_FIELDS = new Set<MergeableField>(['estimatedMinutes']);
+
+const normalize = (value: unknown): FieldValue =>
+  value === undefined || value === null ? null : String(value);
+
+const normalizeField = (field: MergeableField, value: unknown): FieldValue => {
+  const normalized = normalize(value);
+  if (normalized === null || !TIMESTAMP_FIELDS.has(field)) return normalized;
+
+  const time = new Date(normalized).getTime();
+  return isNaN(time) ? normalized : new Date(time).toISOString();
+};
+
+const toISOString = (date: unknown): string =>
+  date instanceof Date ? date.toISOString() : String(date ?? new Date().toISOString());
+
+export function toSnapshot(room: Record<string, any>): RoomSnapshot {
+  const snapshot: RoomSnapshot = {};
+  MERGEABLE_FIELDS.forEach(field => {
+    snapshot[field] = normalizeField(field, room[field]);
+  });
+  return snapshot;
+}
+
+/**
+ * Turn snapshot strings back into the values rooms and the API carry
+ */
+export function fromSnapshot(snapshot: RoomSnapshot): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  (Object.keys(snapshot) as MergeableField[]).forEach(field => {
+    const value = snapshot[field] ?? null;
+    values[field] = value !== null && NUMERIC_FIELDS.has(field) ? Number(value) : value;
+  });
+  return values;
+}
+
+/**
+ * Field-by-field three-way merge. A side that left a field at its base value
+ * yields to the side that changed it; when both changed it to different values
+ * the field is reported as a conflict and the local value is kept for now.
+ * Fields listed in `pinned` are treated as conflicting whenever the sides differ.
+ */
+export function threeWayMerge(
+  base: RoomSnapshot,
+  local: RoomSnapshot,
+  server: RoomSnapshot,
+  pinned: Iterable<MergeableField> = []
+): MergeResult {
+  const pinnedFields = new Set(pinned);
+  const merged: RoomSnapshot = {};
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of MERGEABLE_FIELDS) {
+    const baseValue = normalizeField(field, base[field]);
+    const localValue = normalizeField(field, local[field]);
+    const serverValue = normalizeField(field, server[field]);
+
+    if (localValue === serverValue) {
+      merged[field] = serverValue;
+    } else if (!pinnedFields.has(field) && localValue === baseValue) {
+      merged[field] = serverValue;
+    } else if (!pinnedFields.has(field) && serverValue === baseValue) {
+      merged[field] = localValue;
+    } else {
+      merged[field] = localValue;
+      conflicts.push({ field, base: baseValue, local: localValue, server: serverValue });
+    }
+  }
+
+  return { merged, conflicts };
+}
+
+class ConflictResolver {
+  /**
+   * Remember server copies as the merge base for later reconciliation
+   */
+  async recordBase(serverRooms: Array<Record<string, any>>): Promise<void> {
+    const syncedAt = new Date().toISOString();
+    const snapshots: BaseSnapshot[] = serverRooms.map(room => ({
+      id: Number(room.id),
+      version: room.version ?? 0,
+      fields: toSnapshot(room),
+      syncedAt,
+    }));
+
+    if (snapshots.length > 0) {
+      await indexedDBManager.saveBaseSnapshots(snapshots);
+    }
+  }
+
+  /**
+   * Merge a dirty local room with a newer server copy. Queued changes for the
+   * room are replaced by a single patch of the surviving local edits against
+   * the server's version; genuine conflicts go to the conflicts store.
+   */
+  async reconcile(localRoom: RoomAssignmentLocal, serverRoom: Record<string, any>): Promise<ReconcileResult> {
+    const roomId = localRoom.id;
+    const serverVersion: number = serverRoom.version ?? 0;
+    const baseSnapshot = await indexedDBManager.getBaseSnapshot(roomId);
+    const existingConflict = await indexedDBManager.getConflict(roomId);
+
+    // Server has not moved since our base: pending changes can go out as they are
+    if (baseSnapshot && baseSnapshot.version === serverVersion && !existingConflict) {
+      return { room: localRoom, conflict: null };
+    }
+
+    const server = toSnapshot(serverRoom);
+    // Without a recorded base there is no way to tell who changed what, so the
+    // server copy acts as the base and pending local edits are kept
+    const base = baseSnapshot?.fields ?? server;
+    const { merged, conflicts } = threeWayMerge(
+      base,
+      toSnapshot(localRoom),
+      server,
+      existingConflict?.fields.map(conflict => conflict.field)
+    );
+
+    // Keep the original base of fields that were already in conflict
+    conflicts.forEach(conflict => {
+      const previous = existingConflict?.fields.find(existing => existing.field === conflict.field);
+      if (previous) {
+        conflict.base = previous.base;
+      }
+    });
+
+    const conflictFields = new Set(conflicts.map(conflict => conflict.field));
+    const patch: RoomSnapshot = {};
+    MERGEABLE_FIELDS.forEach(field => {
+      if (!conflictFields.has(field) && merged[field] !== server[field]) {
+        patch[field] = merged[field];
+      }
+    });
+    // Ticks are merged rather than overwritten, see mergeCompletedSteps
+    const completedSteps = mergeCompletedSteps(localRoom.completedSteps, serverRoom.completedSteps);
+    const stepsChanged = completedSteps.length !== (serverRoom.completedSteps ?? []).length;
+    const hasPatch = Object.keys(patch).length > 0 || stepsChanged;
+    const now = new Date().toISOString();
+
+    // Queued items were built on an outdated base version and would only be
+    // rejected again, so they are superseded by the merged patch
+    const staleItems = await indexedDBManager.getSyncQueueItemsForRoom(roomId);
+    for (const item of staleItems) {
+      await indexedDBManager.removeSyncQueueItem(item.id);
+    }
+
+    const version = serverVersion + (hasPatch ? 1 : 0);
+
+    if (hasPatch) {
+      await indexedDBManager.addToSyncQueue({
+        id: uuidv4(),
+        roomId,
+        changeType: 'update',
+        baseVersion: serverVersion,
+        data: { ...fromSnapshot(patch), ...(stepsChanged && { completedSteps }), version },
+        syncStatus: 'pending',
+        retryCount: 0,
+        createdAt: now,
+      });
+    }
+
+    const isDirty = hasPatch || conflicts.length > 0;
+    const room = {
+      ...localRoom,
+      ...fromSnapshot(merged),
+      roomNumber: serverRoom.roomNumber ?? localRoom.roomNumber,
+      // Server-managed, never edited locally
+      reworkNote: serverRoom.reworkNote ?? null,
+      completedSteps,
+      updatedAt: isDirty ? now : toISOString(serverRoom.updatedAt),
+      lastSyncedAt: now,
+      isDirty,
+      version,
+    } as RoomAssignmentLocal;
+
+    await indexedDBManager.saveRoomAssignment(room);
+    await this.recordBase([serverRoom]);
+
+    if (conflicts.length === 0) {
+      await indexedDBManager.removeConflict(roomId);
+      return { room, conflict: null };
+    }
+
+    const conflict: RoomConflict = {
+      roomId,
+      roomNumber: room.roomNumber,
+      fields: conflicts,
+      serverVersion,
+      detectedAt: existingConflict?.detectedAt ?? now,
+    };
+    await indexedDBManager.saveConflict(conflict);
+
+    return { room, conflict };
+  }
+}
+
+// Singleton instance
+export const conflictResolver = new ConflictResolver();
@@ -3,6 +3,9 @@
  * Handles room assignments and sync queue data
  */
 
+import { LEGACY_PROPERTY_ID } from '@/lib/active-property';
+import { CleaningTimerEventType } from '@/types/timer';
+
 export interface DBSchema {
   roomAssignments: {
     key: string;
@@ -16,35 +19,126 @@ export interface DBSchema {
     key: string;
     value: any;
   };
+  baseSnapshots: {
+    key: number;
+    value: BaseSnapshot;
+  };
+  conflicts: {
+    key: number;
+    value: RoomConflict;
+  };
+  roomTransitions: {
+    key: string;
+    value: RoomTransition;
+  };
+  timerEvents: {
+    key: string;
+    value: TimerEventLocal;
+  };
 }
 
 export interface RoomAssignmentLocal {
   id: number; // Fixed: Changed from string to number to match database schema
+  propertyId?: string;
+  roomId?: number;
+  businessDate?: string;
   roomNumber: string;
   status: string;
   priority: string;
   occupancy: string;
-  checkoutTime?: string | null;
-  estimatedTime?: string | null;
+  checkoutTime?: string | null; // ISO 8601
+  estimatedMinutes?: number | null;
   notes?: string | null;
-  guestCheckout?: string | null;
-  nextCheckin?: string | null;
+  guestCheckout?: string | null; // ISO 8601
+  nextCheckin?: string | null; // ISO 8601
   guestName?: string | null;
   occupancyStatus?: string | null;
   bedType?: string | null;
   serviceStatus: string;
   assignedTo?: string | null;
+  reworkNote?: string | null; // Set by a failed inspection; server-managed
+  cleaningType?: string | null;
+  completedSteps?: string[]; // IDs of ticked checklist steps
   createdAt: string;
   updatedAt: string;
   lastSyncedAt?: string;
   isDirty: boolean; // Indicates if local changes exist
   version?: number; // Version tracking for race condition prevention
+  deletedAt?: string; // Set while a local deletion waits to sync
+}
+
+// Fields that offline edits can touch and that take part in three-way merges
+export type MergeableField =
+  | 'status'
+  | 'serviceStatus'
+  | 'notes'
+  | 'priority'
+  | 'occupancy'
+  | 'assignedTo'
+  | 'guestName'
+  | 'occupancyStatus'
+  | 'bedType'
+  | 'checkoutTime'
+  | 'estimatedMinutes'
+  | 'guestCheckout'
+  | 'nextCheckin'
+  | 'cleaningType';
+
+export type FieldValue = string | null;
+
+export type RoomSnapshot = Partial<Record<MergeableField, FieldValue>>;
+
+// Server copy of a room as of the last successful sync (the merge base)
+export interface BaseSnapshot {
+  id: number;
+  version: number;
+  fields: RoomSnapshot;
+  syncedAt: string;
+}
+
+export interface FieldConflict {
+  field: MergeableField;
+  base: FieldValue;
+  local: FieldValue;
+  server: FieldValue;
+}
+
+// Fields that changed both locally and on the server, awaiting a decision
+export interface RoomConflict {
+  roomId: number;
+  roomNumber: string;
+  fields: FieldConflict[];
+  serverVersion: number;
+  detectedAt: string;
+}
+
+// One local edit as the user made it, kept even when queue items are coalesced
+export interface RoomTransition {
+  id: string;
+  roomId: number;
+  syncItemId: string; // Queue item the edit was folded into
+  changes: Record<string, { from: any; to: any }>;
+  recordedAt: string;
+}
+
+// A cleaning timer tap. Kept apart from the sync queue because events are
+// only ever added, so they need no versions or merging.
+export interface TimerEventLocal {
+  id: string;
+  roomId: number;
+  type: CleaningTimerEventType;
+  reason?: string | null;
+  deviceTime: string;
+  occurredAt: string; // deviceTime until the server has corrected it
+  synced: boolean;
 }
 
 export interface SyncQueueItem {
   id: string;
   roomId: number; // Fixed: Changed from string to number to match database schema
-  changeType: 'update' | 'bulk_update';
+  changeType: 'create' | 'update' | 'bulk_update' | 'delete';
+  batchId?: string; // Groups bulk_update items so they are sent in one request
+  baseVersion?: number; // Server version the change was made against, sent as If-Match
   data: Record<string, any>;
   syncStatus: 'pending' | 'syncing' | 'synced' | 'failed';
   retryCount: number;
@@ -53,11 +147,31 @@ export interface SyncQueueItem {
   error?: string;
 }
 
+const BASE_DB_NAME = 'HousekeepingPWA';
+
+// Each property keeps its own database. The one rooms belonged to before
+// properties existed keeps the old name, so its unsynced changes survive.
+const dbNameFor = (propertyId: string) =>
+  propertyId === LEGACY_PROPERTY_ID ? BASE_DB_NAME : `${BASE_DB_NAME}:${propertyId}`;
+
 class IndexedDBManager {
-  private dbName = 'HousekeepingPWA';
-  private version = 2; // Increment version to trigger schema update
+  private dbName = BASE_DB_NAME;
+  private version = 5; // Increment version to trigger schema update
   private db: IDBDatabase | null = null;
 
+  /**
+   * Opens the database of a property, closing the one of the previous property
+   */
+  async open(propertyId: string): Promise<void> {
+    const dbName = dbNameFor(propertyId);
+    if (this.db && this.dbName === dbName) return;
+
+    this.db?.close();
+    this.db = null;
+    this.dbName = dbName;
+    await this.init();
+  }
+
   async init(): Promise<void> {
     return new Promise((resolve, reject) => {
       const request = indexedDB.open(this.dbName, this.version);
@@ -99,6 +213,29 @@ class IndexedDBManager {
         if (!db.objectStoreNames.contains('metadata')) {
           db.createObjectStore('metadata', { keyPath: 'key' });
         }
+
+        // Last-synced server copy per room, used as the three-way merge base
+        if (!db.objectStoreNames.contains('baseSnapshots')) {
+          db.createObjectStore('baseSnapshots', { keyPath: 'id' });
+        }
+
+        // Unresolved field conflicts per room
+        if (!db.objectStoreNames.contains('conflicts')) {
+          db.createObjectStore('conflicts', { keyPath: 'roomId' });
+        }
+
+        // Audit trail of individual local edits
+        if (!db.objectStoreNames.contains('roomTransitions')) {
+          const transitionStore = db.createObjectStore('roomTransitions', { keyPath: 'id' });
+          transitionStore.createIndex('roomId', 'roomId');
+          transitionStore.createIndex('recordedAt', 'recordedAt');
+        }
+
+        // Cleaning timer events, pushed separately from room changes
+        if (!db.objectStoreNames.contains('timerEvents')) {
+          const timerStore = db.createObjectStore('timerEvents', { keyPath: 'id' });
+          timerStore.createIndex('roomId', 'roomId');
+        }
       };
     });
   }
@@ -172,6 +309,88 @@ class IndexedDBManager {
     });
   }
 
+  /**
+   * Drops a room along with its queued changes, merge base and conflict.
+   * The edit trail in roomTransitions is kept.
+   */
+  async removeRoom(roomId: number): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['roomAssignments', 'syncQueue', 'baseSnapshots', 'conflicts', 'timerEvents'], 'readwrite');
+
+      transaction.objectStore('roomAssignments').delete(roomId);
+      transaction.objectStore('baseSnapshots').delete(roomId);
+      transaction.objectStore('conflicts').delete(roomId);
+
+      (['syncQueue', 'timerEvents'] as const).forEach(storeName => {
+        const store = transaction.objectStore(storeName);
+        const request = store.index('roomId').getAllKeys(roomId);
+        request.onsuccess = () => {
+          request.result.forEach(key => store.delete(key));
+        };
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Moves a locally created room to the ID the server assigned, rewriting the
+   * queue items and edit trail that still refer to the temporary ID
+   */
+  async remapRoomId(tempId: number, room: RoomAssignmentLocal): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(
+        ['roomAssignments', 'syncQueue', 'roomTransitions', 'baseSnapshots', 'conflicts', 'timerEvents'],
+        'readwrite'
+      );
+
+      const roomAssignments = transaction.objectStore('roomAssignments');
+      roomAssignments.delete(tempId);
+      roomAssignments.put(room);
+
+      transaction.objectStore('baseSnapshots').delete(tempId);
+      transaction.objectStore('conflicts').delete(tempId);
+
+      (['syncQueue', 'roomTransitions', 'timerEvents'] as const).forEach(storeName => {
+        const store = transaction.objectStore(storeName);
+        const request = store.index('roomId').getAll(tempId);
+        request.onsuccess = () => {
+          request.result.forEach((record: SyncQueueItem | RoomTransition | TimerEventLocal) => {
+            store.put({ ...record, roomId: room.id });
+          });
+        };
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Hands out negative IDs for rooms created offline, so they never collide
+   * with server autoincrement IDs
+   */
+  async nextTempRoomId(): Promise<number> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['metadata'], 'readwrite');
+      const store = transaction.objectStore('metadata');
+      const request = store.get('lastTempRoomId');
+      let tempId: number;
+
+      request.onsuccess = () => {
+        tempId = (request.result?.value ?? 0) - 1;
+        store.put({ key: 'lastTempRoomId', value: tempId });
+      };
+
+      transaction.oncomplete = () => resolve(tempId);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   // Sync Queue Operations
   async addToSyncQueue(item: SyncQueueItem): Promise<void> {
     const db = this.ensureDB();
@@ -222,6 +441,88 @@ class IndexedDBManager {
     });
   }
 
+  /**
+   * Folds a change into the room's newest queue item when that item is a
+   * pending update or create that was never sent, otherwise stores a new item. Sent
+   * items are left alone because the server may already hold them under
+   * their Idempotency-Key. `build` receives the pending
+   * item (or null) and returns the item to store. Runs in one transaction so
+   * the sync engine cannot claim the item halfway through.
+   */
+  async enqueueRoomUpdate(
+    roomId: number,
+    build: (pending: SyncQueueItem | null) => SyncQueueItem
+  ): Promise<SyncQueueItem> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['syncQueue'], 'readwrite');
+      const store = transaction.objectStore('syncQueue');
+      const request = store.index('roomId').getAll(roomId);
+      let stored: SyncQueueItem;
+
+      request.onsuccess = () => {
+        const items = (request.result as SyncQueueItem[])
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        const latest = items[items.length - 1];
+        const pending = latest
+          && (latest.changeType === 'update' || latest.changeType === 'create')
+          && latest.syncStatus === 'pending'
+          && !latest.lastAttemptAt
+          ? latest
+          : null;
+
+        stored = build(pending);
+        store.put(stored);
+      };
+
+      transaction.oncomplete = () => resolve(stored);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Atomically moves pending items to 'syncing' and returns their current
+   * contents. Items that changed status or were removed are left out.
+   */
+  async claimSyncQueueItems(ids: string[]): Promise<SyncQueueItem[]> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['syncQueue'], 'readwrite');
+      const store = transaction.objectStore('syncQueue');
+      const attemptAt = new Date().toISOString();
+      const claimed: SyncQueueItem[] = [];
+
+      ids.forEach(id => {
+        const request = store.get(id);
+        request.onsuccess = () => {
+          const item: SyncQueueItem | undefined = request.result;
+          if (item && item.syncStatus === 'pending') {
+            item.syncStatus = 'syncing';
+            item.lastAttemptAt = attemptAt;
+            store.put(item);
+            claimed.push(item);
+          }
+        };
+      });
+
+      transaction.oncomplete = () => resolve(claimed);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getSyncQueueItemsForRoom(roomId: number): Promise<SyncQueueItem[]> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['syncQueue'], 'readonly');
+      const store = transaction.objectStore('syncQueue');
+      const index = store.index('roomId');
+      const request = index.getAll(roomId);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   async getPendingSyncItems(): Promise<SyncQueueItem[]> {
     const db = this.ensureDB();
     return new Promise((resolve, reject) => {
@@ -260,33 +561,186 @@ class IndexedDBManager {
     });
   }
 
+  // Base Snapshot Operations
+  async getBaseSnapshot(roomId: number): Promise<BaseSnapshot | null> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['baseSnapshots'], 'readonly');
+      const store = transaction.objectStore('baseSnapshots');
+      const request = store.get(roomId);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveBaseSnapshots(snapshots: BaseSnapshot[]): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['baseSnapshots'], 'readwrite');
+      const store = transaction.objectStore('baseSnapshots');
+
+      snapshots.forEach(snapshot => store.put(snapshot));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Conflict Operations
+  async getConflict(roomId: number): Promise<RoomConflict | null> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['conflicts'], 'readonly');
+      const store = transaction.objectStore('conflicts');
+      const request = store.get(roomId);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getAllConflicts(): Promise<RoomConflict[]> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['conflicts'], 'readonly');
+      const store = transaction.objectStore('conflicts');
+      const request = store.getAll();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveConflict(conflict: RoomConflict): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['conflicts'], 'readwrite');
+      const store = transaction.objectStore('conflicts');
+      const request = store.put(conflict);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async removeConflict(roomId: number): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['conflicts'], 'readwrite');
+      const store = transaction.objectStore('conflicts');
+      const request = store.delete(roomId);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Room Transition Operations
+  async addRoomTransition(transition: RoomTransition): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['roomTransitions'], 'readwrite');
+      const store = transaction.objectStore('roomTransitions');
+      const request = store.add(transition);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getRoomTransitions(roomId?: number): Promise<RoomTransition[]> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['roomTransitions'], 'readonly');
+      const store = transaction.objectStore('roomTransitions');
+      const request = roomId !== undefined
+        ? store.index('roomId').getAll(roomId)
+        : store.index('recordedAt').getAll();
+
+      request.onsuccess = () => resolve(
+        (request.result as RoomTransition[]).sort((a, b) => a.recordedAt.localeCompare(b.recordedAt))
+      );
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Timer Event Operations
+  async addTimerEvent(event: TimerEventLocal): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['timerEvents'], 'readwrite');
+      const store = transaction.objectStore('timerEvents');
+      const request = store.add(event);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getTimerEvents(roomId?: number): Promise<TimerEventLocal[]> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['timerEvents'], 'readonly');
+      const store = transaction.objectStore('timerEvents');
+      const request = roomId !== undefined ? store.index('roomId').getAll(roomId) : store.getAll();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Replaces the room's synced events with the server's list. Events not yet
+   * sent are kept unless the server list already has them.
+   */
+  async replaceTimerEvents(roomId: number, serverEvents: TimerEventLocal[]): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['timerEvents'], 'readwrite');
+      const store = transaction.objectStore('timerEvents');
+      const request = store.index('roomId').getAll(roomId);
+
+      request.onsuccess = () => {
+        const serverIds = new Set(serverEvents.map(event => event.id));
+        (request.result as TimerEventLocal[])
+          .filter(event => event.synced || serverIds.has(event.id))
+          .forEach(event => store.delete(event.id));
+        serverEvents.forEach(event => store.put(event));
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async removeTimerEvents(ids: string[]): Promise<void> {
+    const db = this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['timerEvents'], 'readwrite');
+      const store = transaction.objectStore('timerEvents');
+
+      ids.forEach(id => store.delete(id));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   // Utility Methods
   async clearAllData(): Promise<void> {
     const db = this.ensureDB();
+    const storeNames = ['roomAssignments', 'syncQueue', 'metadata', 'baseSnapshots', 'conflicts', 'roomTransitions', 'timerEvents'];
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(['roomAssignments', 'syncQueue', 'metadata'], 'readwrite');
-      
-      const roomStore = transaction.objectStore('roomAssignments');
-      const syncStore = transaction.objectStore('syncQueue');
-      const metaStore = transaction.objectStore('metadata');
+      const transaction = db.transaction(storeNames, 'readwrite');
 
-      Promise.all([
-        new Promise<void>((res, rej) => {
-          const req = roomStore.clear();
-          req.onsuccess = () => res();
-          req.onerror = () => rej(req.error);
-        }),
-        new Promise<void>((res, rej) => {
-          const req = syncStore.clear();
-          req.onsuccess = () => res();
-          req.onerror = () => rej(req.error);
-        }),
-        new Promise<void>((res, rej) => {
-          const req = metaStore.clear();
+      Promise.all(
+        storeNames.map(storeName => new Promise<void>((res, rej) => {
+          const req = transaction.objectStore(storeName).clear();
           req.onsuccess = () => res();
           req.onerror = () => rej(req.error);
-        })
-      ]).then(() => resolve()).catch(reject);
+        }))
+      ).then(() => resolve()).catch(reject);
     });
   }
 }
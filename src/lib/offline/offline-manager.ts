@@ -3,15 +3,35 @@
  * Handles all offline operations, local data management, and coordinates sync
  */
 
-import { indexedDBManager, RoomAssignmentLocal, SyncQueueItem } from './indexeddb';
-import { RoomAssignment, ServiceStatus, UpdateRoomAssignmentData } from '@/types/room';
-import { backgroundSyncService } from './background-sync';
+import { indexedDBManager, RoomAssignmentLocal, RoomConflict, RoomSnapshot, RoomTransition, SyncQueueItem, TimerEventLocal } from './indexeddb';
+import {
+  CreateRoomAssignmentData,
+  RoomAssignment,
+  RoomAssignmentPriority,
+  RoomAssignmentStatus,
+  RoomAssignmentTombstone,
+  RoomOccupancy,
+  ServiceStatus,
+  UpdateRoomAssignmentData
+} from '@/types/room';
+import { CleaningChecklistTemplate, CleaningServiceType } from '@/types/checklist';
+import { CleaningTimerEvent, CleaningTimerEventType } from '@/types/timer';
+import { Property } from '@/types/property';
+import { syncEngine } from './sync-engine';
+import { getActivePropertyId, LEGACY_PROPERTY_ID } from '@/lib/active-property';
+import { conflictResolver, fromSnapshot } from './conflict-resolver';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface OfflineManagerEvents {
   'data-updated': (roomId: string) => void;
   'sync-status-changed': (status: 'idle' | 'syncing' | 'error') => void;
   'room-updated': (room: RoomAssignmentLocal) => void;
+  'conflict-detected': (conflict: RoomConflict) => void;
+  'conflict-resolved': (roomId: number) => void;
+  'room-id-remapped': (tempId: number, serverId: number) => void;
+  'checklists-updated': (templates: CleaningChecklistTemplate[]) => void;
+  'timer-updated': (roomId: number) => void;
+  'property-changed': (propertyId: string) => void;
 }
 
 type EventCallback<K extends keyof OfflineManagerEvents> = OfflineManagerEvents[K];
@@ -20,21 +40,32 @@ class OfflineManager {
   private initialized = false;
   private eventListeners: Map<keyof OfflineManagerEvents, EventCallback<any>[]> = new Map();
   private syncStatus: 'idle' | 'syncing' | 'error' = 'idle';
+  private propertyId: string | null = null;
+  // Temporary IDs of rooms created offline, mapped to their server IDs once
+  // created, so UI still holding a temporary ID reaches the right room
+  private remappedIds = new Map<number, number>();
 
   async init(): Promise<void> {
     if (this.initialized) return;
 
     try {
-      await indexedDBManager.init();
-      
-      // Setup background sync event listeners
-      backgroundSyncService.on('sync-started', () => {
-        this.setSyncStatus('syncing');
+      this.propertyId = getActivePropertyId() ?? LEGACY_PROPERTY_ID;
+      await indexedDBManager.open(this.propertyId);
+      syncEngine.setProperty(this.propertyId);
+
+      // Mirror the sync engine state as the coarse status the UI listens to
+      syncEngine.on('state-changed', (state) => {
+        if (state === 'pulling' || state === 'pushing') {
+          this.setSyncStatus('syncing');
+        } else if (state === 'error') {
+          this.setSyncStatus('error');
+        } else {
+          this.setSyncStatus('idle');
+        }
       });
 
-      backgroundSyncService.on('sync-completed', (results) => {
-        this.setSyncStatus('idle');
-        // Emit room-updated events for successfully synced items
+      syncEngine.on('sync-completed', (results) => {
+        // Emit data-updated events for successfully synced items
         results.forEach(result => {
           if (result.success) {
             this.emit('data-updated', result.itemId);
@@ -42,11 +73,7 @@ class OfflineManager {
         });
       });
 
-      backgroundSyncService.on('sync-failed', () => {
-        this.setSyncStatus('error');
-      });
-
-      backgroundSyncService.on('item-synced', async (item) => {
+      syncEngine.on('item-synced', async (item) => {
         // Refresh the room data and emit update event
         const room = await indexedDBManager.getRoomAssignment(item.roomId);
         if (room) {
@@ -55,13 +82,43 @@ class OfflineManager {
       });
 
       this.initialized = true;
-      console.log('OfflineManager initialized successfully with background sync');
+      syncEngine.start();
+      console.log('OfflineManager initialized successfully with sync engine');
     } catch (error) {
       console.error('Failed to initialize OfflineManager:', error);
       throw error;
     }
   }
 
+  /**
+   * Switch to another property's offline data. A sync in progress finishes
+   * first, so its writes land in the store they were read from.
+   */
+  async setProperty(propertyId: string): Promise<void> {
+    if (!this.initialized) {
+      await this.init();
+    }
+    if (propertyId === this.propertyId) return;
+
+    syncEngine.stop();
+    await syncEngine.whenIdle();
+
+    try {
+      await indexedDBManager.open(propertyId);
+      this.propertyId = propertyId;
+      this.remappedIds.clear();
+      syncEngine.setProperty(propertyId);
+    } finally {
+      syncEngine.start();
+    }
+
+    this.emit('property-changed', propertyId);
+  }
+
+  getPropertyId(): string | null {
+    return this.propertyId;
+  }
+
   private ensureInitialized(): void {
     if (!this.initialized) {
       throw new Error('OfflineManager not initialized. Call init() first.');
@@ -111,12 +168,15 @@ class OfflineManager {
 
     return {
       id: room.id, // Fixed: Use number type directly
+      propertyId: room.propertyId,
+      roomId: room.roomId,
+      businessDate: room.businessDate,
       roomNumber: room.roomNumber,
       status: room.status,
       priority: room.priority,
       occupancy: room.occupancy,
       checkoutTime: room.checkoutTime,
-      estimatedTime: room.estimatedTime,
+      estimatedMinutes: room.estimatedMinutes,
       notes: room.notes,
       guestCheckout: room.guestCheckout,
       nextCheckin: room.nextCheckin,
@@ -125,22 +185,29 @@ class OfflineManager {
       bedType: room.bedType,
       serviceStatus: room.serviceStatus,
       assignedTo: room.assignedTo,
+      reworkNote: room.reworkNote,
+      cleaningType: room.cleaningType,
+      completedSteps: room.completedSteps ?? [],
       createdAt: toISOString(room.createdAt),
       updatedAt: toISOString(room.updatedAt),
       lastSyncedAt: new Date().toISOString(),
-      isDirty: false
+      isDirty: false,
+      version: room.version
     };
   }
 
   private convertFromLocal(room: RoomAssignmentLocal): RoomAssignment {
     return {
       id: room.id, // Now correctly using number type
+      propertyId: room.propertyId ?? this.propertyId ?? LEGACY_PROPERTY_ID,
+      roomId: room.roomId,
+      businessDate: room.businessDate,
       roomNumber: room.roomNumber,
       status: room.status as any,
       priority: room.priority as any,
       occupancy: room.occupancy as any,
       checkoutTime: room.checkoutTime,
-      estimatedTime: room.estimatedTime,
+      estimatedMinutes: room.estimatedMinutes,
       notes: room.notes,
       guestCheckout: room.guestCheckout,
       nextCheckin: room.nextCheckin,
@@ -149,17 +216,48 @@ class OfflineManager {
       bedType: room.bedType,
       serviceStatus: room.serviceStatus as ServiceStatus,
       assignedTo: room.assignedTo,
+      reworkNote: room.reworkNote,
+      cleaningType: room.cleaningType as CleaningServiceType | null | undefined,
+      completedSteps: room.completedSteps ?? [],
+      version: room.version || 0,
       createdAt: new Date(room.createdAt),
       updatedAt: new Date(room.updatedAt)
     };
   }
 
+  private buildTransition(
+    room: RoomAssignmentLocal,
+    changes: UpdateRoomAssignmentData,
+    syncItemId: string,
+    recordedAt: string
+  ): RoomTransition {
+    const previous = room as unknown as Record<string, any>;
+    const fieldChanges: RoomTransition['changes'] = {};
+
+    Object.entries(changes).forEach(([field, value]) => {
+      fieldChanges[field] = { from: previous[field] ?? null, to: value ?? null };
+    });
+
+    return {
+      id: uuidv4(),
+      roomId: room.id,
+      syncItemId,
+      changes: fieldChanges,
+      recordedAt
+    };
+  }
+
+  private resolveRoomId(roomId: number): number {
+    return this.remappedIds.get(roomId) ?? roomId;
+  }
+
   // Room Data Operations
   async getAllRooms(): Promise<RoomAssignment[]> {
     this.ensureInitialized();
     
     try {
-      const localRooms = await indexedDBManager.getAllRoomAssignments();
+      const localRooms = (await indexedDBManager.getAllRoomAssignments())
+        .filter(room => !room.deletedAt); // Hide rooms whose deletion is still syncing
       const convertedRooms = localRooms.map(room => this.convertFromLocal(room));
       
       // Additional deduplication safeguard at the source
@@ -185,8 +283,8 @@ class OfflineManager {
     this.ensureInitialized();
     
     try {
-      const localRoom = await indexedDBManager.getRoomAssignment(roomId);
-      return localRoom ? this.convertFromLocal(localRoom) : null;
+      const localRoom = await indexedDBManager.getRoomAssignment(this.resolveRoomId(roomId));
+      return localRoom && !localRoom.deletedAt ? this.convertFromLocal(localRoom) : null;
     } catch (error) {
       console.error('Failed to get room:', error);
       throw error;
@@ -195,40 +293,56 @@ class OfflineManager {
 
   async updateRoom(roomId: number, updateData: UpdateRoomAssignmentData): Promise<RoomAssignment> { // Fixed: Use number for roomId
     this.ensureInitialized();
+    roomId = this.resolveRoomId(roomId);
     
     try {
       // Get current room data
       const currentRoom = await indexedDBManager.getRoomAssignment(roomId);
       
-      if (!currentRoom) {
+      if (!currentRoom || currentRoom.deletedAt) {
         throw new Error(`Room ${roomId} not found in local storage`);
       }
 
-      // Create updated room with version tracking
       const now = new Date().toISOString();
+
+      // Coalesce with a pending update for the same room so rapid taps go out
+      // as one patch. Later values win per field, and the merged patch keeps
+      // the original base version because the server has not seen any of it.
+      const syncItem = await indexedDBManager.enqueueRoomUpdate(roomId, (pending): SyncQueueItem => {
+        if (pending) {
+          return {
+            ...pending,
+            data: { ...pending.data, ...updateData, version: pending.data.version }
+          };
+        }
+
+        return {
+          id: uuidv4(),
+          roomId: roomId,
+          changeType: 'update',
+          baseVersion: currentRoom.version,
+          data: { ...updateData, version: (currentRoom.version || 0) + 1 },
+          syncStatus: 'pending',
+          retryCount: 0,
+          createdAt: now
+        };
+      });
+
+      // The local version moves once per queued write, not once per edit,
+      // so it stays in step with the server after the patch lands
       const updatedRoom: RoomAssignmentLocal = {
         ...currentRoom,
         ...updateData,
         updatedAt: now,
         isDirty: true, // Mark as having local changes
-        version: (currentRoom.version || 0) + 1 // Add version tracking
+        version: syncItem.data.version
       };
 
       // Save to local storage
       await indexedDBManager.saveRoomAssignment(updatedRoom);
-
-      // Add to sync queue with version info
-      const syncItem: SyncQueueItem = {
-        id: uuidv4(),
-        roomId: roomId,
-        changeType: 'update',
-        data: { ...updateData, version: updatedRoom.version },
-        syncStatus: 'pending',
-        retryCount: 0,
-        createdAt: now
-      };
-
-      await indexedDBManager.addToSyncQueue(syncItem);
+      await indexedDBManager.addRoomTransition(
+        this.buildTransition(currentRoom, updateData, syncItem.id, now)
+      );
 
       // Emit events with debouncing and version info
       setTimeout(() => {
@@ -249,13 +363,16 @@ class OfflineManager {
     try {
       const updatedRooms: RoomAssignmentLocal[] = [];
       const syncItems: SyncQueueItem[] = [];
+      const transitions: RoomTransition[] = [];
+      const batchId = uuidv4();
 
       // Process all updates
       for (const update of updates) {
-        const currentRoom = await indexedDBManager.getRoomAssignment(update.roomId);
+        const roomId = this.resolveRoomId(update.roomId);
+        const currentRoom = await indexedDBManager.getRoomAssignment(roomId);
         
-        if (!currentRoom) {
-          console.warn(`Room ${update.roomId} not found, skipping update`);
+        if (!currentRoom || currentRoom.deletedAt) {
+          console.warn(`Room ${roomId} not found, skipping update`);
           continue;
         }
 
@@ -263,17 +380,22 @@ class OfflineManager {
           ...currentRoom,
           ...update.data,
           updatedAt: new Date().toISOString(),
-          isDirty: true
+          isDirty: true,
+          version: (currentRoom.version || 0) + 1
         };
 
         updatedRooms.push(updatedRoom);
 
-        // Create sync item for each update
+        // Create sync item for each update, grouped so they sync in one bulk request
+        const syncItemId = uuidv4();
+        transitions.push(this.buildTransition(currentRoom, update.data, syncItemId, updatedRoom.updatedAt));
         syncItems.push({
-          id: uuidv4(),
-          roomId: update.roomId,
-          changeType: 'update',
-          data: update.data,
+          id: syncItemId,
+          roomId,
+          changeType: 'bulk_update',
+          batchId,
+          baseVersion: currentRoom.version,
+          data: { ...update.data, version: updatedRoom.version },
           syncStatus: 'pending',
           retryCount: 0,
           createdAt: new Date().toISOString()
@@ -288,6 +410,10 @@ class OfflineManager {
         await indexedDBManager.addToSyncQueue(syncItem);
       }
 
+      for (const transition of transitions) {
+        await indexedDBManager.addRoomTransition(transition);
+      }
+
       // Emit events
       updatedRooms.forEach(room => {
         this.emit('room-updated', room);
@@ -301,13 +427,203 @@ class OfflineManager {
     }
   }
 
+  /**
+   * Delete a room offline. The room is hidden right away but kept as a pending
+   * deletion until the server confirms, so pulls in between do not bring it
+   * back. Queued edits to the room are dropped.
+   */
+  async deleteRoom(roomId: number): Promise<void> {
+    this.ensureInitialized();
+    roomId = this.resolveRoomId(roomId);
+
+    try {
+      const currentRoom = await indexedDBManager.getRoomAssignment(roomId);
+
+      if (!currentRoom || currentRoom.deletedAt) {
+        throw new Error(`Room ${roomId} not found in local storage`);
+      }
+
+      const queuedItems = await indexedDBManager.getSyncQueueItemsForRoom(roomId);
+      const createItem = queuedItems.find(item => item.changeType === 'create');
+
+      if (createItem?.syncStatus === 'syncing') {
+        throw new Error(`Room ${currentRoom.roomNumber} is still being created, try again shortly`);
+      }
+
+      // The room never reached the server, so forgetting it locally is enough
+      if (createItem) {
+        await indexedDBManager.removeRoom(roomId);
+        this.emit('data-updated', roomId.toString());
+        return;
+      }
+
+      for (const item of queuedItems) {
+        if (item.syncStatus !== 'syncing') {
+          await indexedDBManager.removeSyncQueueItem(item.id);
+        }
+      }
+
+      if (await indexedDBManager.getConflict(roomId)) {
+        await indexedDBManager.removeConflict(roomId);
+        this.emit('conflict-resolved', roomId);
+      }
+
+      const now = new Date().toISOString();
+      await indexedDBManager.saveRoomAssignment({
+        ...currentRoom,
+        deletedAt: now,
+        updatedAt: now,
+        isDirty: true
+      });
+
+      await indexedDBManager.addToSyncQueue({
+        id: uuidv4(),
+        roomId,
+        changeType: 'delete',
+        baseVersion: currentRoom.version,
+        data: {},
+        syncStatus: 'pending',
+        retryCount: 0,
+        createdAt: now
+      });
+
+      this.emit('data-updated', roomId.toString());
+    } catch (error) {
+      console.error('Failed to delete room:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a room offline under a temporary negative ID. The sync engine posts
+   * it and swaps in the server ID once the create goes through.
+   */
+  async createRoom(data: CreateRoomAssignmentData): Promise<RoomAssignment> {
+    this.ensureInitialized();
+
+    try {
+      const existingRooms = await indexedDBManager.getAllRoomAssignments();
+      if (existingRooms.some(room => !room.deletedAt && room.roomNumber === data.roomNumber)) {
+        throw new Error(`Room ${data.roomNumber} already has an assignment`);
+      }
+
+      const tempId = await indexedDBManager.nextTempRoomId();
+      const now = new Date().toISOString();
+
+      // Mirrors the server defaults; new rows start at version 1 there too
+      const room: RoomAssignmentLocal = {
+        id: tempId,
+        propertyId: this.propertyId ?? undefined,
+        roomNumber: data.roomNumber,
+        status: data.status || RoomAssignmentStatus.DIRTY,
+        priority: data.priority || RoomAssignmentPriority.MEDIUM,
+        occupancy: data.occupancy || RoomOccupancy.VACANT,
+        checkoutTime: data.checkoutTime ?? null,
+        estimatedMinutes: data.estimatedMinutes ?? null,
+        notes: data.notes ?? null,
+        guestCheckout: data.guestCheckout ?? null,
+        nextCheckin: data.nextCheckin ?? null,
+        guestName: data.guestName ?? null,
+        occupancyStatus: data.occupancyStatus ?? null,
+        bedType: data.bedType ?? null,
+        serviceStatus: data.serviceStatus || ServiceStatus.PENDING,
+        assignedTo: data.assignedTo ?? null,
+        cleaningType: data.cleaningType ?? null,
+        completedSteps: [],
+        createdAt: now,
+        updatedAt: now,
+        isDirty: true,
+        version: 1
+      };
+
+      await indexedDBManager.saveRoomAssignment(room);
+      await indexedDBManager.addToSyncQueue({
+        id: uuidv4(),
+        roomId: tempId,
+        changeType: 'create',
+        data: { ...data, version: room.version },
+        syncStatus: 'pending',
+        retryCount: 0,
+        createdAt: now
+      });
+
+      this.emit('room-updated', room);
+
+      return this.convertFromLocal(room);
+    } catch (error) {
+      console.error('Failed to create room:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a locally created room with the copy the server stored, moving it
+   * from its temporary ID to the server ID
+   */
+  async applyCreatedRoom(localId: number, serverRoom: RoomAssignment): Promise<void> {
+    this.ensureInitialized();
+
+    const now = new Date().toISOString();
+    const localRoom = await indexedDBManager.getRoomAssignment(localId);
+    const laterItems = (await indexedDBManager.getSyncQueueItemsForRoom(localId))
+      .filter(item => item.changeType !== 'create');
+
+    const serverCopy = this.convertToLocal(serverRoom);
+    serverCopy.lastSyncedAt = now;
+
+    // Edits made while the create was in flight are still queued, so the local
+    // copy with those edits stays in place under the new ID
+    const room: RoomAssignmentLocal = localRoom && laterItems.length > 0
+      ? { ...localRoom, id: serverRoom.id, createdAt: serverCopy.createdAt, lastSyncedAt: now, isDirty: true }
+      : serverCopy;
+
+    if (localId !== serverRoom.id) {
+      await indexedDBManager.remapRoomId(localId, room);
+      this.remappedIds.set(localId, serverRoom.id);
+      this.emit('room-id-remapped', localId, serverRoom.id);
+    } else {
+      await indexedDBManager.saveRoomAssignment(room);
+    }
+
+    await conflictResolver.recordBase([serverRoom]);
+    this.emit('room-updated', room);
+  }
+
+  /**
+   * Drop a queued change the server refused. A refused create removes the
+   * room; otherwise a pending deletion is undone and the room is marked clean
+   * once nothing else is queued for it, so the server copy can replace it.
+   */
+  async discardChange(item: SyncQueueItem): Promise<void> {
+    this.ensureInitialized();
+
+    if (item.changeType === 'create') {
+      await indexedDBManager.removeRoom(item.roomId);
+      this.emit('data-updated', item.roomId.toString());
+      return;
+    }
+
+    await indexedDBManager.removeSyncQueueItem(item.id);
+
+    const room = await indexedDBManager.getRoomAssignment(item.roomId);
+    if (!room) return;
+
+    const remainingItems = await indexedDBManager.getSyncQueueItemsForRoom(item.roomId);
+    const openConflict = await indexedDBManager.getConflict(item.roomId);
+    const { deletedAt, ...restoredRoom } = room;
+
+    await indexedDBManager.saveRoomAssignment({
+      ...restoredRoom,
+      isDirty: remainingItems.length > 0 || openConflict !== null
+    });
+    this.emit('room-updated', restoredRoom as RoomAssignmentLocal);
+  }
+
   // Server Data Sync
-  async syncFromServer(serverRooms: RoomAssignment[]): Promise<void> {
+  async syncFromServer(serverRooms: RoomAssignment[], options: { full?: boolean } = {}): Promise<void> {
     this.ensureInitialized();
     
     try {
-      this.setSyncStatus('syncing');
-
       const localRooms = new Map<string, RoomAssignmentLocal>();
       const existingRooms = await indexedDBManager.getAllRoomAssignments();
       
@@ -317,38 +633,88 @@ class OfflineManager {
       });
 
       const roomsToSave: RoomAssignmentLocal[] = [];
+      const acceptedServerRooms: RoomAssignment[] = [];
 
       // Process server rooms
       for (const serverRoom of serverRooms) {
         const localRoom = localRooms.get(serverRoom.id.toString()); // Convert to string for map lookup
         
-        if (!localRoom) {
+        if (localRoom?.deletedAt) {
+          // Deleted locally; the queued deletion takes care of the server copy
+          continue;
+        } else if (!localRoom) {
           // New room from server
           roomsToSave.push(this.convertToLocal(serverRoom));
+          acceptedServerRooms.push(serverRoom);
         } else if (!localRoom.isDirty) {
           // Room exists locally but no local changes, update from server
           const updatedRoom = this.convertToLocal(serverRoom);
           updatedRoom.lastSyncedAt = new Date().toISOString();
           roomsToSave.push(updatedRoom);
+          acceptedServerRooms.push(serverRoom);
+        } else {
+          // Room has local changes: merge them with whatever changed on the server
+          await this.reconcileWithServer(serverRoom, localRoom);
         }
-        // If room is dirty (has local changes), keep local version for now
-        // Conflict resolution will be handled separately
       }
 
       // Save updated rooms
       if (roomsToSave.length > 0) {
         await indexedDBManager.saveMultipleRoomAssignments(roomsToSave);
+        await conflictResolver.recordBase(acceptedServerRooms);
+      }
+
+      // A full snapshot lists every live room, so anything else was deleted
+      // on the server; rooms created offline are kept until they are sent
+      if (options.full) {
+        const serverIds = new Set(serverRooms.map(room => room.id));
+        for (const localRoom of existingRooms) {
+          if (serverIds.has(localRoom.id)) continue;
+
+          const queuedItems = await indexedDBManager.getSyncQueueItemsForRoom(localRoom.id);
+          if (queuedItems.some(item => item.changeType === 'create')) continue;
+
+          await indexedDBManager.removeRoom(localRoom.id);
+          this.emit('data-updated', localRoom.id.toString());
+        }
       }
 
-      this.setSyncStatus('idle');
       console.log(`Synced ${roomsToSave.length} rooms from server`);
     } catch (error) {
       console.error('Failed to sync from server:', error);
-      this.setSyncStatus('error');
       throw error;
     }
   }
 
+  /**
+   * Remove rooms deleted on the server. Local edits to them are dropped since
+   * there is nothing left to apply them to.
+   */
+  async applyServerDeletions(tombstones: RoomAssignmentTombstone[]): Promise<void> {
+    this.ensureInitialized();
+
+    for (const tombstone of tombstones) {
+      const localRoom = await indexedDBManager.getRoomAssignment(tombstone.id);
+      if (!localRoom) continue;
+
+      if (localRoom.isDirty) {
+        console.warn(`Room ${tombstone.roomNumber} was deleted on the server, discarding local changes`);
+      }
+
+      const conflict = await indexedDBManager.getConflict(tombstone.id);
+      await indexedDBManager.removeRoom(tombstone.id);
+
+      if (conflict) {
+        this.emit('conflict-resolved', tombstone.id);
+      }
+      this.emit('data-updated', tombstone.id.toString());
+    }
+
+    if (tombstones.length > 0) {
+      console.log(`Applied ${tombstones.length} deletions from server`);
+    }
+  }
+
   // Sync Queue Management
   async getPendingSyncItems(): Promise<SyncQueueItem[]> {
     this.ensureInitialized();
@@ -376,6 +742,93 @@ class OfflineManager {
     }
   }
 
+  // Conflict Management
+  async reconcileWithServer(
+    serverRoom: Record<string, any>,
+    localRoom?: RoomAssignmentLocal
+  ): Promise<RoomConflict | null> {
+    this.ensureInitialized();
+
+    const currentRoom = localRoom ?? await indexedDBManager.getRoomAssignment(Number(serverRoom.id));
+    // A pending local deletion wins over whatever changed on the server
+    if (!currentRoom || currentRoom.deletedAt) {
+      return null;
+    }
+
+    const { room, conflict } = await conflictResolver.reconcile(currentRoom, serverRoom);
+
+    this.emit('room-updated', room);
+    if (conflict) {
+      this.emit('conflict-detected', conflict);
+    }
+
+    return conflict;
+  }
+
+  async getConflicts(): Promise<RoomConflict[]> {
+    this.ensureInitialized();
+    return await indexedDBManager.getAllConflicts();
+  }
+
+  /**
+   * Every local edit in the order it was made, including those that were
+   * coalesced into a single queued write
+   */
+  async getRoomTransitions(roomId?: number): Promise<RoomTransition[]> {
+    this.ensureInitialized();
+    return await indexedDBManager.getRoomTransitions(roomId);
+  }
+
+  /**
+   * Settle a conflict with the chosen value per field. Fields missing from
+   * `resolution` keep the local value. Choices that differ from the server are
+   * queued as a regular edit; taking the server value everywhere just drops
+   * the conflict.
+   */
+  async resolveConflict(roomId: number, resolution: RoomSnapshot): Promise<RoomAssignment> {
+    this.ensureInitialized();
+
+    const conflict = await indexedDBManager.getConflict(roomId);
+    if (!conflict) {
+      throw new Error(`No conflict recorded for room ${roomId}`);
+    }
+
+    const currentRoom = await indexedDBManager.getRoomAssignment(roomId);
+    if (!currentRoom) {
+      throw new Error(`Room ${roomId} not found in local storage`);
+    }
+
+    const resolvedValues: RoomSnapshot = {};
+    let differsFromServer = false;
+    conflict.fields.forEach(({ field, local, server }) => {
+      const value = field in resolution ? resolution[field] ?? null : local;
+      resolvedValues[field] = value;
+      if (value !== server) {
+        differsFromServer = true;
+      }
+    });
+
+    await indexedDBManager.removeConflict(roomId);
+    this.emit('conflict-resolved', roomId);
+
+    if (differsFromServer) {
+      return this.updateRoom(roomId, fromSnapshot(resolvedValues) as UpdateRoomAssignmentData);
+    }
+
+    // Server values taken everywhere: nothing to send for these fields
+    const remainingItems = await indexedDBManager.getSyncQueueItemsForRoom(roomId);
+    const resolvedRoom = {
+      ...currentRoom,
+      ...fromSnapshot(resolvedValues),
+      isDirty: remainingItems.length > 0,
+    } as RoomAssignmentLocal;
+
+    await indexedDBManager.saveRoomAssignment(resolvedRoom);
+    this.emit('room-updated', resolvedRoom);
+
+    return this.convertFromLocal(resolvedRoom);
+  }
+
   // Status Management
   private setSyncStatus(status: 'idle' | 'syncing' | 'error'): void {
     if (this.syncStatus !== status) {
@@ -412,6 +865,95 @@ class OfflineManager {
     this.ensureInitialized();
     await indexedDBManager.setMetadata('lastSyncTime', time.toISOString());
   }
+
+  /**
+   * Record a cleaning timer tap on this device. The sync engine sends it; the
+   * first start also moves the room to IN_PROGRESS.
+   */
+  async recordTimerEvent(roomId: number, type: CleaningTimerEventType, reason?: string): Promise<TimerEventLocal> {
+    this.ensureInitialized();
+    roomId = this.resolveRoomId(roomId);
+
+    const now = new Date().toISOString();
+    const event: TimerEventLocal = {
+      id: uuidv4(),
+      roomId,
+      type,
+      reason: reason ?? null,
+      deviceTime: now,
+      occurredAt: now,
+      synced: false
+    };
+
+    await indexedDBManager.addTimerEvent(event);
+
+    const room = await indexedDBManager.getRoomAssignment(roomId);
+    if (type === CleaningTimerEventType.START && room?.serviceStatus === ServiceStatus.PENDING) {
+      await this.updateRoom(roomId, { serviceStatus: ServiceStatus.IN_PROGRESS });
+    }
+
+    this.emit('timer-updated', roomId);
+    return event;
+  }
+
+  async getTimerEvents(roomId: number): Promise<TimerEventLocal[]> {
+    this.ensureInitialized();
+    return indexedDBManager.getTimerEvents(this.resolveRoomId(roomId));
+  }
+
+  async getUnsyncedTimerEvents(): Promise<TimerEventLocal[]> {
+    this.ensureInitialized();
+    return (await indexedDBManager.getTimerEvents()).filter(event => !event.synced);
+  }
+
+  /**
+   * Take the server's events for a room, with times corrected for clock drift
+   */
+  async applyServerTimerEvents(roomId: number, serverEvents: CleaningTimerEvent[]): Promise<void> {
+    this.ensureInitialized();
+
+    const toISOString = (date: Date | string) => typeof date === 'string' ? date : date.toISOString();
+    await indexedDBManager.replaceTimerEvents(roomId, serverEvents.map(event => ({
+      id: event.id,
+      roomId,
+      type: event.type,
+      reason: event.reason,
+      deviceTime: toISOString(event.deviceTime),
+      occurredAt: toISOString(event.occurredAt),
+      synced: true
+    })));
+    this.emit('timer-updated', roomId);
+  }
+
+  // Drop timer events the server refused, e.g. for a room no longer assigned
+  async discardTimerEvents(roomId: number, ids: string[]): Promise<void> {
+    this.ensureInitialized();
+    await indexedDBManager.removeTimerEvents(ids);
+    this.emit('timer-updated', roomId);
+  }
+
+  // Cleaning checklists, newest first, as last fetched by the sync engine
+  async getChecklistTemplates(): Promise<CleaningChecklistTemplate[]> {
+    this.ensureInitialized();
+    return (await indexedDBManager.getMetadata('cleaningChecklists')) ?? [];
+  }
+
+  async saveChecklistTemplates(templates: CleaningChecklistTemplate[]): Promise<void> {
+    this.ensureInitialized();
+    await indexedDBManager.setMetadata('cleaningChecklists', templates);
+    this.emit('checklists-updated', templates);
+  }
+
+  // Properties the user works at, so the switcher still works offline
+  async getCachedProperties(): Promise<Property[]> {
+    this.ensureInitialized();
+    return (await indexedDBManager.getMetadata('properties')) ?? [];
+  }
+
+  async saveProperties(properties: Property[]): Promise<void> {
+    this.ensureInitialized();
+    await indexedDBManager.setMetadata('properties', properties);
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,729 @@
+/**
+ * Sync Engine
+ * Single scheduler and state machine that pulls server data into IndexedDB and
+ * pushes the offline sync queue, with per-item exponential backoff
+ */
+
+import { offlineManager } from './offline-manager';
+import { indexedDBManager, SyncQueueItem } from './indexeddb';
+import { conflictResolver } from './conflict-resolver';
+import { toETag } from '@/lib/etag';
+import { PROPERTY_HEADER } from '@/lib/active-property';
+import { RoomAssignmentChangeFeed } from '@/types/room';
+import { v5 as uuidv5 } from 'uuid';
+
+export type SyncEngineState = 'idle' | 'pulling' | 'pushing' | 'backoff' | 'error';
+
+export interface SyncEngineEvents {
+  'state-changed': (state: SyncEngineState) => void;
+  'sync-started': () => void;
+  'sync-completed': (results: SyncResult[]) => void;
+  'sync-failed': (error: Error) => void;
+  'item-synced': (item: SyncQueueItem) => void;
+  'item-failed': (item: SyncQueueItem, error: Error) => void;
+  'item-rejected': (item: SyncQueueItem, error: Error) => void;
+  'timer-rejected': (roomId: number, error: Error) => void;
+}
+
+export interface SyncResult {
+  itemId: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface SyncNowOptions {
+  // Pull from the server before pushing; defaults to pulling when the last pull is stale
+  pull?: boolean;
+}
+
+interface BulkUpdateItemResult {
+  id: number;
+  success: boolean;
+  assignment?: Record<string, any>;
+  error?: string;
+  conflict?: boolean;
+  current?: Record<string, any>;
+  forbidden?: boolean;
+}
+
+const SYNC_INTERVAL = 30 * 1000; // Push cadence while online
+const PULL_INTERVAL = 60 * 1000; // Delta pull from the change feed
+const CHECKLIST_PULL_INTERVAL = 15 * 60 * 1000; // Checklist templates rarely change
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+const MAX_RETRIES = 8; // After this an item is parked as failed
+const MAX_BULK_SIZE = 50;
+const REJECTED_STATUSES = [400, 403, 422]; // Invalid or not allowed; retrying cannot help
+const CURSOR_METADATA_KEY = 'changeFeedCursor';
+const BULK_KEY_NAMESPACE = '6f1c2b8e-4d3a-4f5e-9b7c-2a1d0e8f3c45'; // Derives bulk Idempotency-Keys
+
+class SyncEngine {
+  private state: SyncEngineState = 'idle';
+  private isOnline = typeof window !== 'undefined' ? navigator.onLine : true;
+  private started = false;
+  private propertyId: string | null = null;
+  private running: Promise<SyncResult[]> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private lastPullAt = 0;
+  private lastChecklistPullAt = 0;
+  private consecutiveFailures = 0;
+  private reconciledRooms = new Set<number>(); // Rooms whose queue was rewritten during this run
+  private createdRooms = new Set<number>(); // Temporary IDs whose create went through during this run
+  private eventListeners: Map<keyof SyncEngineEvents, ((...args: any[]) => void)[]> = new Map();
+
+  start(): void {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+
+    this.recoverInterruptedItems()
+      .catch(error => console.error('Failed to recover interrupted sync items:', error))
+      .finally(() => this.schedule(0));
+  }
+
+  stop(): void {
+    if (!this.started) return;
+    this.started = false;
+
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    this.clearTimer();
+  }
+
+  // Resolves once a sync in progress has finished
+  async whenIdle(): Promise<void> {
+    await this.running?.catch(() => undefined);
+  }
+
+  /**
+   * The property whose store is being synced. Call while stopped; the next
+   * run starts with a pull of the new property.
+   */
+  setProperty(propertyId: string): void {
+    this.propertyId = propertyId;
+    this.lastPullAt = 0;
+    this.lastChecklistPullAt = 0;
+    this.consecutiveFailures = 0;
+  }
+
+  // Names the synced property on every request, whatever the switcher has
+  // stored in the cookie since the queued changes were made
+  private request(url: string, init: RequestInit & { headers?: Record<string, string> } = {}): Promise<Response> {
+    return fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        ...(this.propertyId && { [PROPERTY_HEADER]: this.propertyId }),
+      },
+    });
+  }
+
+  private handleOnline = () => {
+    console.log('Network connection restored');
+    this.isOnline = true;
+    this.consecutiveFailures = 0;
+    this.syncNow({ pull: true });
+  };
+
+  private handleOffline = () => {
+    console.log('Network connection lost');
+    this.isOnline = false;
+    this.clearTimer();
+    this.setState('idle');
+  };
+
+  // Event Management
+  on<K extends keyof SyncEngineEvents>(event: K, callback: SyncEngineEvents[K]): void {
+    if (!this.eventListeners.has(event)) {
+      this.eventListeners.set(event, []);
+    }
+    this.eventListeners.get(event)!.push(callback);
+  }
+
+  off<K extends keyof SyncEngineEvents>(event: K, callback: SyncEngineEvents[K]): void {
+    const listeners = this.eventListeners.get(event);
+    if (listeners) {
+      const index = listeners.indexOf(callback);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    }
+  }
+
+  private emit<K extends keyof SyncEngineEvents>(event: K, ...args: Parameters<SyncEngineEvents[K]>): void {
+    const listeners = this.eventListeners.get(event);
+    if (listeners) {
+      listeners.forEach(callback => {
+        try {
+          (callback as any)(...args);
+        } catch (error) {
+          console.error(`Error in ${event} listener:`, error);
+        }
+      });
+    }
+  }
+
+  private setState(state: SyncEngineState): void {
+    if (this.state !== state) {
+      this.state = state;
+      this.emit('state-changed', state);
+    }
+  }
+
+  // Scheduling
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(delay: number): void {
+    this.clearTimer();
+    if (!this.started || !this.isOnline) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.syncNow();
+    }, delay);
+  }
+
+  private retryDelay(attempt: number): number {
+    return Math.min(BASE_RETRY_DELAY * 2 ** Math.max(attempt - 1, 0), MAX_RETRY_DELAY);
+  }
+
+  private isDue(item: SyncQueueItem, now: number): boolean {
+    if (item.retryCount === 0 || !item.lastAttemptAt) return true;
+    return now >= new Date(item.lastAttemptAt).getTime() + this.retryDelay(item.retryCount);
+  }
+
+  // Milliseconds until the earliest backed-off item may be retried, or null if none wait
+  private async getNextRetryDelay(): Promise<number | null> {
+    const now = Date.now();
+    const waiting = (await indexedDBManager.getPendingSyncItems())
+      .filter(item => !this.isDue(item, now))
+      .map(item => new Date(item.lastAttemptAt!).getTime() + this.retryDelay(item.retryCount) - now);
+
+    return waiting.length > 0 ? Math.max(Math.min(...waiting), 0) : null;
+  }
+
+  // Items left mid-flight by a closed tab would otherwise never be picked up again
+  private async recoverInterruptedItems(): Promise<void> {
+    const items = await indexedDBManager.getSyncQueue();
+    for (const item of items) {
+      if (item.syncStatus === 'syncing') {
+        item.syncStatus = 'pending';
+        await indexedDBManager.updateSyncQueueItem(item);
+      }
+    }
+  }
+
+  /**
+   * Run a sync cycle now. Concurrent callers share the cycle in flight, so the
+   * queue is never drained twice at the same time.
+   */
+  async syncNow(options: SyncNowOptions = {}): Promise<SyncResult[]> {
+    if (this.running) return this.running;
+
+    this.clearTimer();
+    this.running = this.run(options).finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  private async run({ pull }: SyncNowOptions): Promise<SyncResult[]> {
+    if (!this.isOnline) {
+      this.setState('idle');
+      return [];
+    }
+
+    let results: SyncResult[] = [];
+    this.emit('sync-started');
+
+    try {
+      if (pull ?? Date.now() - this.lastPullAt >= PULL_INTERVAL) {
+        this.setState('pulling');
+        await this.pull();
+        this.lastPullAt = Date.now();
+      }
+
+      if (Date.now() - this.lastChecklistPullAt >= CHECKLIST_PULL_INTERVAL) {
+        await this.pullChecklists();
+      }
+
+      this.setState('pushing');
+      results = await this.push();
+      await this.pushTimerEvents();
+
+      this.consecutiveFailures = 0;
+      await offlineManager.setLastSyncTime(new Date());
+      this.emit('sync-completed', results);
+      console.log(`Sync completed. ${results.filter(r => r.success).length}/${results.length} items synced successfully`);
+
+      const retryDelay = await this.getNextRetryDelay();
+      this.setState(retryDelay !== null ? 'backoff' : 'idle');
+      this.schedule(retryDelay !== null ? Math.min(retryDelay, SYNC_INTERVAL) : SYNC_INTERVAL);
+    } catch (error) {
+      console.error('Sync failed:', error);
+      this.consecutiveFailures++;
+      this.setState('error');
+      this.emit('sync-failed', error instanceof Error ? error : new Error('Unknown sync error'));
+      this.schedule(this.retryDelay(this.consecutiveFailures));
+    }
+
+    return results;
+  }
+
+  /**
+   * Fetches rooms changed since the stored cursor. Without a cursor the server
+   * answers with a full snapshot.
+   */
+  private async pull(): Promise<void> {
+    const cursor: string | undefined = await indexedDBManager.getMetadata(CURSOR_METADATA_KEY);
+    let response = await this.request(`/api/room-assignments?since=${encodeURIComponent(cursor ?? '')}`);
+
+    // The server rejected the stored cursor: start over from a snapshot
+    if (response.status === 400 && cursor) {
+      response = await this.request('/api/room-assignments?since=');
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to pull room assignments: HTTP ${response.status}`);
+    }
+
+    const feed: RoomAssignmentChangeFeed = await response.json();
+    await offlineManager.syncFromServer(feed.changed, { full: feed.full });
+    await offlineManager.applyServerDeletions(feed.deleted);
+
+    // Only advance once the changes are stored, so an interrupted pull is repeated
+    await indexedDBManager.setMetadata(CURSOR_METADATA_KEY, feed.cursor);
+  }
+
+  /**
+   * Refreshes the cached cleaning checklists. A failure keeps the cached copy
+   * and is retried on the next run rather than failing the sync.
+   */
+  private async pullChecklists(): Promise<void> {
+    try {
+      const response = await this.request('/api/cleaning-checklists');
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      await offlineManager.saveChecklistTemplates(await response.json());
+      this.lastChecklistPullAt = Date.now();
+    } catch (error) {
+      console.warn('Failed to refresh cleaning checklists:', error);
+    }
+  }
+
+  private async push(): Promise<SyncResult[]> {
+    const now = Date.now();
+    const pendingItems = (await indexedDBManager.getPendingSyncItems())
+      .filter(item => this.isDue(item, now))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const results: SyncResult[] = [];
+    const processedBatches = new Set<string>();
+
+    this.reconciledRooms.clear();
+    this.createdRooms.clear();
+
+    for (const item of pendingItems) {
+      // Items of a reconciled room were replaced by a merged patch for the next run
+      if (this.reconciledRooms.has(item.roomId)) continue;
+      if (this.awaitsCreate(item)) continue;
+
+      // Bulk items are sent together the first time any member of their batch comes up
+      if (item.changeType === 'bulk_update') {
+        const batchId = item.batchId || item.id;
+        if (processedBatches.has(batchId)) continue;
+        processedBatches.add(batchId);
+
+        const batch = pendingItems.filter(
+          pending => pending.changeType === 'bulk_update'
+            && (pending.batchId || pending.id) === batchId
+            && !this.reconciledRooms.has(pending.roomId)
+            && !this.awaitsCreate(pending)
+        );
+
+        for (let i = 0; i < batch.length; i += MAX_BULK_SIZE) {
+          results.push(...await this.pushBulk(batch.slice(i, i + MAX_BULK_SIZE)));
+        }
+        continue;
+      }
+
+      const result = item.changeType === 'create'
+        ? await this.pushCreate(item)
+        : item.changeType === 'delete'
+          ? await this.pushDelete(item)
+          : await this.pushUpdate(item);
+      if (result) {
+        results.push(result);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Sends unsynced timer events, one request per room. Rooms created offline
+   * wait for their server ID. A refused batch is dropped; anything else is
+   * left for the next run, the server skips events it already has.
+   */
+  private async pushTimerEvents(): Promise<void> {
+    const pendingEvents = (await offlineManager.getUnsyncedTimerEvents())
+      .filter(event => event.roomId > 0);
+    const eventsByRoom = new Map<number, typeof pendingEvents>();
+    pendingEvents.forEach(event => {
+      eventsByRoom.set(event.roomId, [...(eventsByRoom.get(event.roomId) ?? []), event]);
+    });
+
+    for (const [roomId, events] of eventsByRoom) {
+      try {
+        const response = await this.request(`/api/room-assignments/${roomId}/timer-events`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            events: events.map(({ id, type, reason, deviceTime }) => ({ id, type, reason: reason ?? undefined, deviceTime })),
+            sentAt: new Date().toISOString(),
+          }),
+        });
+
+        if (response.status === 403 || response.status === 404) {
+          const error = (await response.json().catch(() => null))?.error || `HTTP ${response.status}`;
+          await offlineManager.discardTimerEvents(roomId, events.map(event => event.id));
+          this.emit('timer-rejected', roomId, new Error(error));
+          continue;
+        }
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        await offlineManager.applyServerTimerEvents(roomId, await response.json());
+      } catch (error) {
+        console.warn(`Failed to send timer events for room ${roomId}:`, error);
+      }
+    }
+  }
+
+  // Changes to a room created offline wait until its create has gone through;
+  // claiming then picks up the server ID the remap wrote into the item
+  private awaitsCreate(item: SyncQueueItem): boolean {
+    return item.roomId < 0 && item.changeType !== 'create' && !this.createdRooms.has(item.roomId);
+  }
+
+  // Filter out internal fields that shouldn't be sent to the API
+  private toApiData(data: Record<string, any>): Record<string, any> {
+    const { version, id, isDirty, lastSyncedAt, createdAt, updatedAt, ...apiData } = data;
+    return apiData;
+  }
+
+  // The key covers each item's attempt count: the server stores the 207 of a
+  // non-atomic batch, so retrying items that failed in it needs a fresh key
+  // to be applied again instead of replaying the stored results
+  private bulkIdempotencyKey(items: SyncQueueItem[]): string {
+    const ids = items.map(item => `${item.id}:${item.retryCount}`).sort().join(',');
+    return uuidv5(ids, BULK_KEY_NAMESPACE);
+  }
+
+  /**
+   * Claiming re-reads the item, so edits coalesced into it after the queue was
+   * listed are sent too. Returns null when the item is no longer pending.
+   */
+  private async pushUpdate(pendingItem: SyncQueueItem): Promise<SyncResult | null> {
+    const [item] = await indexedDBManager.claimSyncQueueItems([pendingItem.id]);
+    if (!item) return null;
+
+    try {
+      const response = await this.request(`/api/room-assignments/${item.roomId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          // Lets the server recognise a retry of a write it already applied
+          'Idempotency-Key': item.id,
+          'X-Change-Source': 'offline-sync',
+          'X-Device-Time': item.createdAt,
+          ...(item.baseVersion !== undefined && { 'If-Match': toETag(item.baseVersion) }),
+        },
+        body: JSON.stringify(this.toApiData(item.data)),
+      });
+
+      if (response.status === 409) {
+        const { code, current } = await response.clone().json().catch(() => ({}));
+        // An earlier attempt of this item is still running on the server
+        if (code === 'IDEMPOTENCY_REQUEST_IN_PROGRESS') {
+          throw new Error('Previous attempt still in progress');
+        }
+        // Only a version conflict carries the server's row to merge with
+        if (current) {
+          return await this.handleConflict(item, current);
+        }
+        return await this.rejectItem(item, response);
+      }
+
+      // Refused, or the room is gone on the server
+      if (REJECTED_STATUSES.includes(response.status) || response.status === 404) {
+        return await this.rejectItem(item, response);
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      await this.applyServerRoom(item.roomId, await response.json());
+      return await this.markItemSynced(item);
+    } catch (error) {
+      return this.markItemFailed(item, error);
+    }
+  }
+
+  private async pushCreate(pendingItem: SyncQueueItem): Promise<SyncResult | null> {
+    const [item] = await indexedDBManager.claimSyncQueueItems([pendingItem.id]);
+    if (!item) return null;
+
+    try {
+      const response = await this.request('/api/room-assignments', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': item.id,
+          'X-Change-Source': 'offline-sync',
+          'X-Device-Time': item.createdAt,
+        },
+        body: JSON.stringify(this.toApiData(item.data)),
+      });
+
+      if (response.status === 409) {
+        const { code } = await response.clone().json().catch(() => ({}));
+        if (code === 'IDEMPOTENCY_REQUEST_IN_PROGRESS') {
+          throw new Error('Previous attempt still in progress');
+        }
+      }
+
+      // Refused for good, e.g. the room already has an assignment. Rejecting a
+      // create drops the temporary room and the changes queued on it
+      if (REJECTED_STATUSES.includes(response.status) || response.status === 409) {
+        return await this.rejectItem(item, response);
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      await offlineManager.applyCreatedRoom(item.roomId, await response.json());
+      this.createdRooms.add(item.roomId);
+      return await this.markItemSynced(item);
+    } catch (error) {
+      return this.markItemFailed(item, error);
+    }
+  }
+
+  private async pushDelete(pendingItem: SyncQueueItem): Promise<SyncResult | null> {
+    const [item] = await indexedDBManager.claimSyncQueueItems([pendingItem.id]);
+    if (!item) return null;
+
+    try {
+      const response = await this.request(`/api/room-assignments/${item.roomId}`, {
+        method: 'DELETE',
+        headers: {
+          'Idempotency-Key': item.id,
+          'X-Change-Source': 'offline-sync',
+          'X-Device-Time': item.createdAt,
+        },
+      });
+
+      if (response.status === 403) {
+        return await this.rejectItem(item, response);
+      }
+
+      // A room that is already gone on the server counts as deleted
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      await indexedDBManager.removeRoom(item.roomId);
+      this.emit('item-synced', item);
+      return { itemId: item.id, success: true };
+    } catch (error) {
+      return this.markItemFailed(item, error);
+    }
+  }
+
+  /**
+   * Sends a batch of bulk_update items in one request and settles each queue
+   * item individually from the per-room results
+   */
+  private async pushBulk(pendingItems: SyncQueueItem[]): Promise<SyncResult[]> {
+    const items = await indexedDBManager.claimSyncQueueItems(pendingItems.map(item => item.id));
+    if (items.length === 0) return [];
+
+    let itemResults: BulkUpdateItemResult[];
+
+    try {
+      const response = await this.request('/api/room-assignments/bulk', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': this.bulkIdempotencyKey(items),
+          'X-Change-Source': 'offline-sync',
+        },
+        body: JSON.stringify({
+          atomic: false,
+          updates: items.map(item => ({
+            id: item.roomId,
+            baseVersion: item.baseVersion,
+            deviceTime: item.createdAt,
+            data: this.toApiData(item.data),
+          })),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      ({ results: itemResults } = await response.json());
+    } catch (error) {
+      console.error('Failed to sync bulk update:', error);
+      const results: SyncResult[] = [];
+      for (const item of items) {
+        results.push(await this.markItemFailed(item, error));
+      }
+      return results;
+    }
+
+    // The server answers in request order
+    const results: SyncResult[] = [];
+    for (const [index, item] of items.entries()) {
+      const itemResult = itemResults[index];
+
+      if (itemResult?.success) {
+        if (itemResult.assignment) {
+          await this.applyServerRoom(item.roomId, itemResult.assignment);
+        }
+        results.push(await this.markItemSynced(item));
+      } else if (itemResult?.conflict && itemResult.current) {
+        results.push(await this.handleConflict(item, itemResult.current));
+      } else if (itemResult?.forbidden) {
+        results.push(await this.rejectItem(item, itemResult.error || 'Not allowed'));
+      } else {
+        results.push(await this.markItemFailed(item, new Error(itemResult?.error || 'Bulk update failed')));
+      }
+    }
+
+    return results;
+  }
+
+  private async applyServerRoom(roomId: number, serverRoom: Record<string, any>): Promise<void> {
+    const localRoom = await indexedDBManager.getRoomAssignment(roomId);
+    if (localRoom) {
+      // Only update if server data is newer or equal to avoid overwriting newer local changes
+      const serverUpdatedAt = new Date(serverRoom.updatedAt || 0).getTime();
+      const localUpdatedAt = new Date(localRoom.updatedAt || 0).getTime();
+
+      if (serverUpdatedAt >= localUpdatedAt) {
+        await indexedDBManager.saveRoomAssignment({
+          ...localRoom,
+          ...serverRoom,
+          id: roomId,
+          // Keep the local counter ahead while later local edits are still queued
+          version: Math.max(localRoom.version || 0, serverRoom.version || 0),
+          lastSyncedAt: new Date().toISOString()
+        });
+      }
+    }
+
+    await conflictResolver.recordBase([serverRoom]);
+  }
+
+  private async markItemSynced(item: SyncQueueItem): Promise<SyncResult> {
+    await indexedDBManager.removeSyncQueueItem(item.id);
+
+    // The room stays dirty while other changes or conflicts remain
+    const room = await indexedDBManager.getRoomAssignment(item.roomId);
+    const remainingItems = await indexedDBManager.getSyncQueueItemsForRoom(item.roomId);
+    const openConflict = await indexedDBManager.getConflict(item.roomId);
+    if (room) {
+      room.isDirty = remainingItems.length > 0 || openConflict !== null;
+      room.lastSyncedAt = new Date().toISOString();
+      await indexedDBManager.saveRoomAssignment(room);
+    }
+
+    this.emit('item-synced', item);
+    return { itemId: item.id, success: true };
+  }
+
+  private async markItemFailed(item: SyncQueueItem, error: unknown): Promise<SyncResult> {
+    item.retryCount++;
+    item.lastAttemptAt = new Date().toISOString();
+    item.error = error instanceof Error ? error.message : 'Unknown error';
+    // Backed-off items stay pending; after MAX_RETRIES the item is parked as failed
+    item.syncStatus = item.retryCount >= MAX_RETRIES ? 'failed' : 'pending';
+
+    await indexedDBManager.updateSyncQueueItem(item);
+    this.emit('item-failed', item, new Error(item.error));
+
+    return { itemId: item.id, success: false, error: item.error };
+  }
+
+  /**
+   * The server refused the change for good, e.g. the user's role does not
+   * allow it. Retrying cannot help, so the item is dropped and the room is
+   * restored from the server copy.
+   */
+  private async rejectItem(item: SyncQueueItem, reason: Response | string): Promise<SyncResult> {
+    const error = typeof reason === 'string'
+      ? reason
+      : (await reason.json().catch(() => null))?.error || `HTTP ${reason.status}: ${reason.statusText}`;
+
+    await offlineManager.discardChange(item);
+
+    if (item.changeType !== 'create') {
+      try {
+        const response = await this.request(`/api/room-assignments/${item.roomId}`);
+        if (response.ok) {
+          await offlineManager.syncFromServer([await response.json()]);
+        }
+      } catch (fetchError) {
+        console.error(`Failed to restore room ${item.roomId} from server:`, fetchError);
+      }
+    }
+
+    this.emit('item-rejected', item, new Error(error));
+    return { itemId: item.id, success: false, error };
+  }
+
+  private async handleConflict(item: SyncQueueItem, serverRoom: Record<string, any>): Promise<SyncResult> {
+    // Replaying the same base version would fail again; the merge replaces the
+    // room's queued items with a single patch against the server's version
+    await offlineManager.reconcileWithServer(serverRoom);
+    this.reconciledRooms.add(item.roomId);
+
+    const error = `Version conflict on room ${item.roomId}`;
+    this.emit('item-failed', item, new Error(error));
+    return { itemId: item.id, success: false, error };
+  }
+
+  // Status
+  getState(): SyncEngineState {
+    return this.state;
+  }
+
+  isOnlineStatus(): boolean {
+    return this.isOnline;
+  }
+
+  async getPendingCount(): Promise<number> {
+    const pendingItems = await indexedDBManager.getPendingSyncItems();
+    return pendingItems.length;
+  }
+}
+
+// Singleton instance
+export const syncEngine = new SyncEngine();
@@ -0,0 +1,63 @@
+/**
+ * Route handler property scoping
+ * Every request about rooms acts in one property: the one named in the
+ * X-Property-Id header, else the one the dashboard switcher stored in the
+ * `propertyId` cookie, else the caller's only property
+ */
+
+import { NextResponse } from 'next/server';
+import { forbidden } from '@/lib/auth-errors';
+import { badRequest, errorResponse } from '@/lib/api-errors';
+import type { AuthenticatedUser } from '@/lib/auth-guard';
+import { PROPERTY_COOKIE, PROPERTY_HEADER } from '@/lib/active-property';
+import { PropertyService } from '@/lib/services/property.service';
+
+export type PropertyResult =
+  | { propertyId: string; response?: undefined }
+  | { propertyId?: undefined; response: NextResponse };
+
+function requestedPropertyId(request: Request): string | null {
+  const header = request.headers.get(PROPERTY_HEADER)?.trim();
+  if (header) {
+    return header;
+  }
+
+  const cookie = request.headers
+    .get('Cookie')
+    ?.split(';')
+    .map((part) => part.trim().split('='))
+    .find(([name]) => name === PROPERTY_COOKIE);
+
+  return cookie?.[1] ? decodeURIComponent(cookie[1]) : null;
+}
+
+/**
+ * Returns the property the request acts in, or a ready 400/403 response when
+ * none was chosen or the caller does not work there
+ */
+export async function requireProperty(request: Request, user: AuthenticatedUser): Promise<PropertyResult> {
+  let propertyIds: string[];
+
+  try {
+    propertyIds = await PropertyService.getPropertyIds(user);
+  } catch (error) {
+    return { response: errorResponse(error, 'Failed to resolve property') };
+  }
+
+  const requested = requestedPropertyId(request);
+  if (requested) {
+    return propertyIds.includes(requested)
+      ? { propertyId: requested }
+      : { response: forbidden('You do not have access to this property') };
+  }
+
+  if (propertyIds.length === 1) {
+    return { propertyId: propertyIds[0] };
+  }
+
+  return {
+    response: propertyIds.length === 0
+      ? forbidden('You are not a member of any property')
+      : badRequest(`Select a property with the ${PROPERTY_HEADER} header`),
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Property time helpers
+ * Check-in and checkout times are stored as instants; they are read and
+ * entered as wall-clock times of the property, which may differ from the
+ * server's and the device's time zone
+ */
+
+// IANA zone of properties without their own, e.g. "Asia/Jakarta"
+export const PROPERTY_TIME_ZONE = process.env.NEXT_PUBLIC_PROPERTY_TIME_ZONE || 'UTC';
+
+// Zone of the property picked in the switcher; the helpers default to it
+let activeTimeZone = PROPERTY_TIME_ZONE;
+
+export function setActivePropertyTimeZone(timeZone: string | null | undefined): void {
+  activeTimeZone = timeZone || PROPERTY_TIME_ZONE;
+}
+
+interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+function wallClockOf(date: Date, timeZone: string): WallClock {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+
+  return { year: part('year'), month: part('month'), day: part('day'), hour: part('hour'), minute: part('minute') };
+}
+
+/**
+ * The instant a wall-clock time in the property's zone refers to. The zone's
+ * offset is looked up at a first guess and again at the result, which settles
+ * it across daylight saving changes.
+ */
+export function fromPropertyWallClock(clock: WallClock, timeZone = activeTimeZone): Date {
+  const target = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute);
+  let instant = target;
+
+  for (let i = 0; i < 2; i++) {
+    const seen = wallClockOf(new Date(instant), timeZone);
+    const seenAsUtc = Date.UTC(seen.year, seen.month - 1, seen.day, seen.hour, seen.minute);
+    instant += target - seenAsUtc;
+  }
+
+  return new Date(instant);
+}
+
+/**
+ * `hour`:`minute` on the property's calendar day that `day` falls on
+ */
+export function atPropertyTime(day: Date, hour: number, minute = 0, timeZone = activeTimeZone): Date {
+  const { year, month, day: date } = wallClockOf(day, timeZone);
+  return fromPropertyWallClock({ year, month, day: date, hour, minute }, timeZone);
+}
+
+/**
+ * The property's calendar day at `now`, as midnight UTC the way date columns
+ * are read and written
+ */
+export function propertyBusinessDate(now: Date = new Date(), timeZone = activeTimeZone): Date {
+  const { year, month, day } = wallClockOf(now, timeZone);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+// A business date as stored, e.g. "Mon, Oct 19"
+export function formatBusinessDate(value: Date | string): string {
+  return new Intl.DateTimeFormat('en-US', { timeZone: 'UTC', weekday: 'short', month: 'short', day: 'numeric' })
+    .format(new Date(value));
+}
+
+export function formatPropertyTime(value: Date | string | null | undefined, timeZone = activeTimeZone): string | null {
+  if (!value) return null;
+  return new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: '2-digit' }).format(new Date(value));
+}
+
+export function formatPropertyDateTime(value: Date | string | null | undefined, timeZone = activeTimeZone): string | null {
+  if (!value) return null;
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(new Date(value));
+}
+
+// Whole minutes from `now` until `value`; negative once it has passed
+export function minutesUntil(value: Date | string, now: Date = new Date()): number {
+  return Math.round((new Date(value).getTime() - now.getTime()) / 60000);
+}
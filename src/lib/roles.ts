@@ -0,0 +1,19 @@
+/**
+ * User roles
+ * Roles are ordered: each role may do everything the roles below it may
+ */
+
+import { UserRole } from '@/generated/prisma';
+
+export { UserRole };
+
+const ROLE_RANK: Record<UserRole, number> = {
+  [UserRole.ATTENDANT]: 0,
+  [UserRole.SUPERVISOR]: 1,
+  [UserRole.MANAGER]: 2,
+  [UserRole.ADMIN]: 3,
+};
+
+export function hasRole(role: UserRole | undefined, minimum: UserRole): boolean {
+  return role !== undefined && ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
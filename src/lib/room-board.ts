@@ -0,0 +1,39 @@
+/**
+ * Room board helpers
+ * Shared by the board generator and the supervisor board so both weigh
+ * rooms the same way
+ */
+
+import { BoardTaskType, DEFAULT_TASK_CREDITS } from '@/types/board';
+
+/**
+ * Task type from the free-text occupancyStatus used by the front desk
+ */
+export function taskTypeOf(occupancyStatus?: string | null): BoardTaskType {
+  if (occupancyStatus && /due[\s-]?out|departure|check[\s-]?out/i.test(occupancyStatus)) {
+    return BoardTaskType.DEPARTURE;
+  }
+  if (occupancyStatus && /stay[\s-]?over/i.test(occupancyStatus)) {
+    return BoardTaskType.STAY_OVER;
+  }
+  return BoardTaskType.VACANT;
+}
+
+/**
+ * Floor from the room number: everything before the last two digits, so
+ * "101" is on floor 1 and "1203" on floor 12
+ */
+export function floorOf(roomNumber: string): string {
+  const match = roomNumber.match(/^(\d+)\d{2}$/);
+  return match ? match[1] : roomNumber;
+}
+
+/**
+ * Credits a room counts for given the credit table in use
+ */
+export function creditsFor(
+  occupancyStatus?: string | null,
+  credits: Record<BoardTaskType, number> = DEFAULT_TASK_CREDITS
+): number {
+  return credits[taskTypeOf(occupancyStatus)];
+}
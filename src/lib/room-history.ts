@@ -0,0 +1,67 @@
+/**
+ * Room history helpers
+ * Turn recorded room changes into lines for the timeline
+ */
+
+import { formatBusinessDate, formatPropertyDateTime } from '@/lib/property-time';
+import { toPascalCase } from '@/lib/utils';
+import { RoomAssignmentEventSource, RoomFieldChange } from '@/types/history';
+
+const FIELD_LABELS: Record<string, string> = {
+  roomNumber: 'Room number',
+  status: 'Status',
+  serviceStatus: 'Service status',
+  priority: 'Priority',
+  occupancy: 'Occupancy',
+  occupancyStatus: 'Occupancy status',
+  checkoutTime: 'Checkout time',
+  guestCheckout: 'Guest checkout',
+  nextCheckin: 'Next check-in',
+  estimatedMinutes: 'Estimated minutes',
+  notes: 'Notes',
+  guestName: 'Guest',
+  bedType: 'Bed type',
+  assignedTo: 'Assigned to',
+  reworkNote: 'Rework note',
+  cleaningType: 'Cleaning type',
+  completedSteps: 'Checklist steps done',
+  deletedAt: 'Deleted',
+  businessDate: 'Business day',
+  archivedAt: 'Archived',
+};
+
+const TIMESTAMP_FIELDS = new Set(['checkoutTime', 'guestCheckout', 'nextCheckin', 'deletedAt', 'archivedAt']);
+const ENUM_FIELDS = new Set(['status', 'serviceStatus', 'priority', 'occupancy', 'cleaningType']);
+
+export const SOURCE_LABELS: Record<RoomAssignmentEventSource, string> = {
+  WEB: 'Web',
+  OFFLINE_SYNC: 'Synced from device',
+  INTEGRATION: 'Integration',
+  SYSTEM: 'Day rollover',
+};
+
+/**
+ * A value as shown in the timeline. `userName` looks up assignees by ID.
+ */
+export function formatChangeValue(
+  field: string,
+  value: unknown,
+  userName: (id: string) => string | undefined = () => undefined
+): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return String(value.length);
+  if (field === 'businessDate') return formatBusinessDate(String(value));
+  if (TIMESTAMP_FIELDS.has(field)) return formatPropertyDateTime(String(value)) ?? String(value);
+  if (ENUM_FIELDS.has(field)) return toPascalCase(String(value));
+  if (field === 'assignedTo') return userName(String(value)) ?? 'Someone else';
+  return String(value);
+}
+
+export function fieldLabel(field: string): string {
+  return FIELD_LABELS[field] ?? field;
+}
+
+// Long free text reads better without the old value next to it
+export function showsPreviousValue(change: RoomFieldChange): boolean {
+  return change.field !== 'notes' && change.field !== 'reworkNote';
+}
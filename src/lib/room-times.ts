@@ -0,0 +1,89 @@
+/**
+ * Room time helpers
+ * Dashboard ordering and arrival warnings worked out from the rooms' checkout
+ * and check-in timestamps
+ */
+
+import { minutesUntil } from '@/lib/property-time';
+import { RoomAssignmentPriority, RoomAssignmentStatus } from '@/types/room';
+
+interface TimedRoom {
+  roomNumber: string;
+  status: RoomAssignmentStatus;
+  priority: RoomAssignmentPriority;
+  checkoutTime?: string | null;
+  nextCheckin?: string | null;
+}
+
+export type RoomSortKey = 'priority' | 'roomNumber' | 'checkoutTime' | 'nextCheckin';
+
+// Arrivals further out than this are not worth flagging yet
+export const ARRIVAL_WARNING_MINUTES = 120;
+export const ARRIVAL_URGENT_MINUTES = 30;
+
+const PRIORITY_RANK: Record<RoomAssignmentPriority, number> = {
+  URGENT: 0,
+  HIGH: 1,
+  MEDIUM: 2,
+  LOW: 3,
+};
+
+const byRoomNumber = (a: TimedRoom, b: TimedRoom) =>
+  a.roomNumber.localeCompare(b.roomNumber, undefined, { numeric: true });
+
+// Earliest first; rooms without a time go last
+const byTime = (a?: string | null, b?: string | null) => {
+  if (!a || !b) return a ? -1 : b ? 1 : 0;
+  return new Date(a).getTime() - new Date(b).getTime();
+};
+
+/**
+ * Comparator for a dashboard sort option. Unknown options fall back to
+ * priority; ties are broken by room number.
+ */
+export function compareRooms(sortBy: string) {
+  return (a: TimedRoom, b: TimedRoom): number => {
+    let order: number;
+    switch (sortBy as RoomSortKey) {
+      case 'roomNumber':
+        order = 0;
+        break;
+      case 'checkoutTime':
+        order = byTime(a.checkoutTime, b.checkoutTime);
+        break;
+      case 'nextCheckin':
+        order = byTime(a.nextCheckin, b.nextCheckin);
+        break;
+      default:
+        order = PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority];
+    }
+    return order || byRoomNumber(a, b);
+  };
+}
+
+export interface ArrivalWarning {
+  minutes: number; // Until the arrival; negative once the guest is due
+  urgent: boolean;
+}
+
+/**
+ * Warn about rooms that are not ready while their next guest is due soon
+ */
+export function arrivalWarning(room: TimedRoom, now: Date = new Date()): ArrivalWarning | null {
+  if (!room.nextCheckin) return null;
+  if (room.status === RoomAssignmentStatus.CLEAN || room.status === RoomAssignmentStatus.INSPECTED) return null;
+
+  const minutes = minutesUntil(room.nextCheckin, now);
+  if (minutes > ARRIVAL_WARNING_MINUTES) return null;
+
+  return { minutes, urgent: minutes <= ARRIVAL_URGENT_MINUTES };
+}
+
+export function formatArrivalWarning({ minutes }: ArrivalWarning): string {
+  if (minutes <= 0) return 'Guest due, still dirty';
+  if (minutes < 60) return `Arrival in ${minutes} min, still dirty`;
+
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `Arrival in ${hours}h${rest ? ` ${rest}m` : ''}, still dirty`;
+}
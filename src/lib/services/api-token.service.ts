@@ -0,0 +1,147 @@
+import { createHash, randomBytes } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { UserRole } from "@/generated/prisma";
+
+const TOKEN_PREFIX = "hkt_";
+// lastUsedAt is only refreshed this often to keep token checks read-mostly
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Token fields that are safe to hand back to callers
+const apiTokenSelect = {
+  id: true,
+  name: true,
+  userId: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+export interface IssueApiTokenData {
+  userId: string;
+  name: string;
+  expiresAt?: Date;
+}
+
+export interface ApiTokenUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+}
+
+/**
+ * Thrown when revoking a token that does not exist
+ */
+export class ApiTokenNotFoundError extends Error {
+  constructor(id: string) {
+    super(`API token with ID ${id} not found`);
+    this.name = "ApiTokenNotFoundError";
+  }
+}
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+export class ApiTokenService {
+  /**
+   * Issue a new token. The plain token is returned only here; just its hash is stored.
+   */
+  static async issueToken(data: IssueApiTokenData) {
+    try {
+      const token = `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+
+      const apiToken = await prisma.apiToken.create({
+        data: {
+          name: data.name,
+          userId: data.userId,
+          expiresAt: data.expiresAt,
+          tokenHash: hashToken(token),
+        },
+        select: apiTokenSelect
+      });
+
+      return { token, apiToken };
+    } catch (error) {
+      throw new Error(`Failed to issue API token: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Resolve the user behind a bearer token, or null when the token is unknown,
+   * revoked or expired
+   */
+  static async authenticate(token: string): Promise<ApiTokenUser | null> {
+    if (!token.startsWith(TOKEN_PREFIX)) {
+      return null;
+    }
+
+    try {
+      const apiToken = await prisma.apiToken.findUnique({
+        where: { tokenHash: hashToken(token) },
+        include: {
+          user: { select: { id: true, email: true, name: true, role: true, active: true } }
+        }
+      });
+
+      const now = new Date();
+      if (!apiToken || apiToken.revokedAt || (apiToken.expiresAt && apiToken.expiresAt <= now)) {
+        return null;
+      }
+
+      // Tokens stop working with their user's account
+      if (!apiToken.user.active) {
+        return null;
+      }
+
+      if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+        await prisma.apiToken.update({
+          where: { id: apiToken.id },
+          data: { lastUsedAt: now }
+        });
+      }
+
+      const { active, ...user } = apiToken.user;
+      return user;
+    } catch (error) {
+      throw new Error(`Failed to authenticate API token: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Get all tokens, newest first
+   */
+  static async listTokens() {
+    try {
+      return await prisma.apiToken.findMany({
+        orderBy: { createdAt: "desc" },
+        select: apiTokenSelect
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch API tokens: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Revoke a token; revoked tokens stay listed for reference
+   */
+  static async revokeToken(id: string) {
+    try {
+      const existingToken = await prisma.apiToken.findUnique({
+        where: { id }
+      });
+
+      if (!existingToken) {
+        throw new ApiTokenNotFoundError(id);
+      }
+
+      return await prisma.apiToken.update({
+        where: { id },
+        data: { revokedAt: existingToken.revokedAt ?? new Date() },
+        select: apiTokenSelect
+      });
+    } catch (error) {
+      if (error instanceof ApiTokenNotFoundError) throw error;
+      throw new Error(`Failed to revoke API token: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import { prisma } from "@/lib/prisma";
+import { RoomAssignment, RoomAssignmentPriority, RoomAssignmentStatus, UserRole } from "@/generated/prisma";
+import { RoomAssignmentService, RoomAssignmentActor } from "@/lib/services/room-assignment.service";
+import { floorOf, taskTypeOf } from "@/lib/room-board";
+import {
+  ApplyBoardData,
+  BoardAttendantLoad,
+  BoardRoom,
+  DEFAULT_TASK_CREDITS,
+  GenerateBoardOptions,
+  RoomBoard,
+} from "@/types/board";
+
+const PRIORITY_ORDER: Record<RoomAssignmentPriority, number> = {
+  URGENT: 0,
+  HIGH: 1,
+  MEDIUM: 2,
+  LOW: 3,
+};
+
+type SourceRoom = RoomAssignment & { room: { floor: { name: string } | null } };
+
+export class BoardGeneratorService {
+  /**
+   * Build a board for the shift without saving anything. Dirty rooms are
+   * spread over the active attendants on the shift so their credits come out
+   * even, filling one floor at a time to keep each attendant on few floors.
+   * Only the property's rooms and the attendants working there are used.
+   */
+  static async generateBoard(propertyId: string, options: GenerateBoardOptions): Promise<RoomBoard> {
+    const credits = { ...DEFAULT_TASK_CREDITS, ...options.credits };
+
+    try {
+      const [rooms, attendants] = await Promise.all([
+        prisma.roomAssignment.findMany({
+          where: { propertyId, deletedAt: null, archivedAt: null, status: RoomAssignmentStatus.DIRTY },
+          include: { room: { select: { floor: { select: { name: true } } } } }
+        }),
+        prisma.user.findMany({
+          where: {
+            active: true,
+            role: UserRole.ATTENDANT,
+            shift: options.shift,
+            properties: { some: { propertyId } }
+          },
+          orderBy: [{ name: "asc" }, { email: "asc" }],
+          select: { id: true, name: true, email: true }
+        })
+      ]);
+
+      const loads: BoardAttendantLoad[] = attendants.map((user) => ({
+        user,
+        rooms: [],
+        totalCredits: 0,
+        floors: []
+      }));
+      const loadsByUser = new Map(loads.map((load) => [load.user.id, load]));
+
+      const toBoardRoom = (room: SourceRoom, kept: boolean): BoardRoom => {
+        const taskType = taskTypeOf(room.occupancyStatus);
+        return {
+          id: room.id,
+          roomNumber: room.roomNumber,
+          floor: room.room.floor?.name ?? floorOf(room.roomNumber),
+          taskType,
+          credits: credits[taskType],
+          version: room.version,
+          kept
+        };
+      };
+
+      const place = (load: BoardAttendantLoad, room: BoardRoom) => {
+        load.rooms.push(room);
+        load.totalCredits += room.credits;
+        if (!load.floors.includes(room.floor)) {
+          load.floors.push(room.floor);
+        }
+      };
+
+      // Rooms already held by someone on the shift count towards their load
+      const toDistribute: SourceRoom[] = [];
+      for (const room of rooms) {
+        const holder = room.assignedTo ? loadsByUser.get(room.assignedTo) : undefined;
+        if (holder && !options.reassignAll) {
+          place(holder, toBoardRoom(room, true));
+        } else {
+          toDistribute.push(room);
+        }
+      }
+
+      if (loads.length === 0) {
+        return {
+          shift: options.shift,
+          credits,
+          attendants: [],
+          unassigned: toDistribute.map((room) => toBoardRoom(room, false)),
+          generatedAt: new Date().toISOString()
+        };
+      }
+
+      const pending = toDistribute
+        .map((room) => ({ room, boardRoom: toBoardRoom(room, false) }))
+        .sort((a, b) =>
+          a.boardRoom.floor.localeCompare(b.boardRoom.floor, undefined, { numeric: true }) ||
+          PRIORITY_ORDER[a.room.priority] - PRIORITY_ORDER[b.room.priority] ||
+          a.room.roomNumber.localeCompare(b.room.roomNumber, undefined, { numeric: true })
+        );
+
+      const totalCredits = loads.reduce((sum, load) => sum + load.totalCredits, 0) +
+        pending.reduce((sum, { boardRoom }) => sum + boardRoom.credits, 0);
+      const target = totalCredits / loads.length;
+
+      for (const { boardRoom } of pending) {
+        // Stay with someone already on this floor while they have room under
+        // the target; otherwise the least loaded attendant, preferring one
+        // spread over fewer floors
+        const onFloor = loads
+          .filter((load) => load.floors.includes(boardRoom.floor) && load.totalCredits + boardRoom.credits <= target)
+          .sort((a, b) => a.totalCredits - b.totalCredits)[0];
+
+        const leastLoaded = [...loads].sort((a, b) =>
+          a.totalCredits - b.totalCredits || a.floors.length - b.floors.length
+        )[0];
+
+        place(onFloor ?? leastLoaded, boardRoom);
+      }
+
+      for (const load of loads) {
+        load.rooms.sort((a, b) => a.roomNumber.localeCompare(b.roomNumber, undefined, { numeric: true }));
+        load.floors.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+      }
+
+      return {
+        shift: options.shift,
+        credits,
+        attendants: loads,
+        unassigned: [],
+        generatedAt: new Date().toISOString()
+      };
+    } catch (error) {
+      throw new Error(`Failed to generate room board: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Save a confirmed board. All rooms are reassigned in one transaction, so
+   * if any of them changed since the preview nothing is saved.
+   */
+  static async applyBoard(propertyId: string, board: ApplyBoardData, actor: RoomAssignmentActor) {
+    return RoomAssignmentService.bulkUpdate(
+      board.assignments.map((assignment) => ({
+        id: assignment.roomId,
+        data: { assignedTo: assignment.userId },
+        expectedVersion: assignment.version
+      })),
+      { atomic: true, actor, propertyId }
+    );
+  }
+}
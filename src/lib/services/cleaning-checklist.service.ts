@@ -0,0 +1,112 @@
+import { prisma } from "@/lib/prisma";
+import { CreateCleaningChecklistData, UpdateCleaningChecklistData } from "@/types/checklist";
+
+const templateInclude = {
+  steps: { orderBy: { position: "asc" } }
+} as const;
+
+/**
+ * Thrown when the checklist template does not exist
+ */
+export class CleaningChecklistNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Cleaning checklist with ID ${id} not found`);
+    this.name = "CleaningChecklistNotFoundError";
+  }
+}
+
+export class CleaningChecklistService {
+  /**
+   * Get templates newest first, active ones only unless `includeInactive`.
+   * Offline clients cache this list and pick the first match per service.
+   */
+  static async listTemplates(includeInactive = false) {
+    try {
+      return await prisma.cleaningChecklistTemplate.findMany({
+        where: includeInactive ? {} : { active: true },
+        orderBy: { createdAt: "desc" },
+        include: templateInclude
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch cleaning checklists: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Get template by ID
+   */
+  static async getTemplate(id: string) {
+    try {
+      const template = await prisma.cleaningChecklistTemplate.findUnique({
+        where: { id },
+        include: templateInclude
+      });
+
+      if (!template) {
+        throw new CleaningChecklistNotFoundError(id);
+      }
+
+      return template;
+    } catch (error) {
+      if (error instanceof CleaningChecklistNotFoundError) throw error;
+      throw new Error(`Failed to fetch cleaning checklist: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Create template
+   */
+  static async createTemplate(data: CreateCleaningChecklistData) {
+    try {
+      return await prisma.cleaningChecklistTemplate.create({
+        data: {
+          serviceType: data.serviceType,
+          name: data.name,
+          steps: {
+            create: data.steps.map((label, position) => ({ label, position }))
+          }
+        },
+        include: templateInclude
+      });
+    } catch (error) {
+      throw new Error(`Failed to create cleaning checklist: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Update template. Sending steps replaces them, which leaves ticks rooms
+   * made on the old steps behind, so do it between shifts.
+   */
+  static async updateTemplate(id: string, data: UpdateCleaningChecklistData) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const existing = await tx.cleaningChecklistTemplate.findUnique({ where: { id } });
+        if (!existing) {
+          throw new CleaningChecklistNotFoundError(id);
+        }
+
+        if (data.steps) {
+          await tx.cleaningChecklistStep.deleteMany({ where: { templateId: id } });
+        }
+
+        return await tx.cleaningChecklistTemplate.update({
+          where: { id },
+          data: {
+            serviceType: data.serviceType,
+            name: data.name,
+            active: data.active,
+            ...(data.steps && {
+              steps: {
+                create: data.steps.map((label, position) => ({ label, position }))
+              }
+            })
+          },
+          include: templateInclude
+        });
+      });
+    } catch (error) {
+      if (error instanceof CleaningChecklistNotFoundError) throw error;
+      throw new Error(`Failed to update cleaning checklist: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+}
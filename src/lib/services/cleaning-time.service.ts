@@ -0,0 +1,184 @@
+import { prisma } from "@/lib/prisma";
+import { CleaningTimerEventType, UserRole } from "@/generated/prisma";
+import { hasRole } from "@/lib/roles";
+import { summarizeTimer } from "@/lib/cleaning-timer";
+import { PROPERTY_TIME_ZONE, atPropertyTime } from "@/lib/property-time";
+import {
+  RoomAssignmentActor,
+  RoomAssignmentForbiddenError,
+} from "@/lib/services/room-assignment.service";
+import {
+  CleaningTimeAttendantTotals,
+  CleaningTimeReport,
+  CleaningTimeReportQuery,
+  CleaningTimeReportRow,
+  RecordTimerEventsData,
+} from "@/types/timer";
+
+/**
+ * Thrown when timer events are sent for a room that does not exist
+ */
+export class CleaningTimerRoomNotFoundError extends Error {
+  constructor(roomId: number) {
+    super(`Room assignment with ID ${roomId} not found`);
+    this.name = "CleaningTimerRoomNotFoundError";
+  }
+}
+
+const isKnownError = (error: unknown) =>
+  error instanceof CleaningTimerRoomNotFoundError ||
+  error instanceof RoomAssignmentForbiddenError;
+
+const toMinutes = (ms: number) => Math.round(ms / 60000);
+
+export class CleaningTimeService {
+  /**
+   * Get a room's timer events in the order they happened
+   */
+  static async getEvents(roomId: number, propertyId: string) {
+    try {
+      return await prisma.cleaningTimerEvent.findMany({
+        where: { roomAssignmentId: roomId, roomAssignment: { propertyId } },
+        orderBy: [{ occurredAt: "asc" }, { id: "asc" }]
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch timer events: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Store timer events recorded on a device, possibly long ago while offline.
+   * Device clocks drift, so each event is shifted by how far the device's
+   * clock was off when it sent the batch, and never lands in the future.
+   * Events already stored under the same ID are skipped. Attendants may only
+   * time rooms assigned to them.
+   */
+  static async recordEvents(
+    roomId: number,
+    propertyId: string,
+    data: RecordTimerEventsData,
+    actor: RoomAssignmentActor
+  ) {
+    try {
+      const room = await prisma.roomAssignment.findUnique({ where: { id: roomId } });
+      if (!room || room.deletedAt || room.propertyId !== propertyId) {
+        throw new CleaningTimerRoomNotFoundError(roomId);
+      }
+
+      if (!hasRole(actor.role, UserRole.SUPERVISOR) && room.assignedTo !== actor.id) {
+        throw new RoomAssignmentForbiddenError(roomId, `Room ${room.roomNumber} is not assigned to you`);
+      }
+
+      const receivedAt = Date.now();
+      const clockOffset = receivedAt - data.sentAt.getTime();
+
+      await prisma.cleaningTimerEvent.createMany({
+        data: data.events.map((event) => ({
+          id: event.id,
+          roomAssignmentId: roomId,
+          userId: actor.id,
+          type: event.type,
+          reason: event.reason,
+          deviceTime: event.deviceTime,
+          occurredAt: new Date(Math.min(event.deviceTime.getTime() + clockOffset, receivedAt))
+        })),
+        skipDuplicates: true
+      });
+
+      return await this.getEvents(roomId, propertyId);
+    } catch (error) {
+      if (isKnownError(error)) throw error;
+      throw new Error(`Failed to record timer events: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Actual against estimated cleaning time for rooms started within the
+   * period (the property's day so far by default). Rooms still being cleaned
+   * count up to the end of the period. Each room is credited to whoever
+   * started it.
+   */
+  static async getReport(propertyId: string, query: CleaningTimeReportQuery = {}): Promise<CleaningTimeReport> {
+    try {
+      const to = query.to ?? new Date();
+      const from = query.from ?? await this.startOfPropertyDay(propertyId, to);
+
+      const rooms = await prisma.roomAssignment.findMany({
+        where: {
+          propertyId,
+          deletedAt: null,
+          timerEvents: { some: { occurredAt: { gte: from, lte: to } } }
+        },
+        include: {
+          timerEvents: {
+            where: { occurredAt: { lte: to } },
+            include: { user: { select: { id: true, email: true, name: true } } }
+          }
+        },
+        orderBy: { roomNumber: "asc" }
+      });
+
+      const rows: CleaningTimeReportRow[] = [];
+      for (const room of rooms) {
+        const summary = summarizeTimer(room.timerEvents, to);
+        if (!summary.startedAt || summary.startedAt < from) continue;
+
+        const starter = room.timerEvents
+          .filter((event) => event.occurredAt.getTime() === summary.startedAt!.getTime())
+          .find((event) => event.type === CleaningTimerEventType.START);
+        if (query.attendantId && starter?.userId !== query.attendantId) continue;
+
+        const actualMinutes = toMinutes(summary.activeMs);
+        const estimatedMinutes = room.estimatedMinutes;
+
+        rows.push({
+          roomAssignmentId: room.id,
+          roomNumber: room.roomNumber,
+          attendantId: starter?.userId ?? null,
+          attendantName: starter?.user ? starter.user.name || starter.user.email : null,
+          startedAt: summary.startedAt,
+          finishedAt: summary.finishedAt,
+          actualMinutes,
+          pausedMinutes: toMinutes(summary.pausedMs),
+          estimatedMinutes,
+          varianceMinutes: estimatedMinutes === null ? null : actualMinutes - estimatedMinutes
+        });
+      }
+
+      const byAttendant = new Map<string | null, CleaningTimeAttendantTotals>();
+      for (const row of rows) {
+        const totals = byAttendant.get(row.attendantId) ?? {
+          userId: row.attendantId,
+          name: row.attendantName,
+          rooms: 0,
+          actualMinutes: 0,
+          estimatedMinutes: 0,
+          averageMinutes: 0
+        };
+        totals.rooms += 1;
+        totals.actualMinutes += row.actualMinutes;
+        totals.estimatedMinutes += row.estimatedMinutes ?? 0;
+        totals.averageMinutes = Math.round(totals.actualMinutes / totals.rooms);
+        byAttendant.set(row.attendantId, totals);
+      }
+
+      return {
+        from,
+        to,
+        rows,
+        attendants: Array.from(byAttendant.values()).sort((a, b) => b.rooms - a.rooms)
+      };
+    } catch (error) {
+      throw new Error(`Failed to build cleaning time report: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  // Midnight of the property's calendar day that `at` falls on
+  private static async startOfPropertyDay(propertyId: string, at: Date): Promise<Date> {
+    const property = await prisma.property.findUniqueOrThrow({
+      where: { id: propertyId },
+      select: { timeZone: true }
+    });
+    return atPropertyTime(at, 0, 0, property.timeZone ?? PROPERTY_TIME_ZONE);
+  }
+}
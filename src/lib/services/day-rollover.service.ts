@@ -0,0 +1,183 @@
+import { prisma } from "@/lib/prisma";
+import {
+  Prisma,
+  RoomAssignment,
+  RoomAssignmentEventSource,
+  RoomAssignmentEventType,
+  RoomAssignmentStatus,
+  RoomOccupancy,
+} from "@/generated/prisma";
+import { diffFields } from "@/lib/services/room-assignment.service";
+import { PROPERTY_TIME_ZONE, propertyBusinessDate } from "@/lib/property-time";
+import { DayRolloverOptions, DayRolloverResult } from "@/types/property";
+
+// Fields listed in the CREATED event of a rolled over room
+const CARRIED_FIELDS = [
+  "roomNumber",
+  "businessDate",
+  "status",
+  "occupancy",
+  "guestName",
+  "occupancyStatus",
+  "bedType",
+  "guestCheckout",
+  "nextCheckin",
+] as const;
+
+const toDateString = (value: Date) => value.toISOString().slice(0, 10);
+
+// A timestamp still ahead is about the new day too
+const upcoming = (value: Date | null, now: Date) => (value && value > now ? value : null);
+
+/**
+ * The new day's assignment of a room, starting from yesterday's. A guest
+ * staying over keeps the room occupied and makes it due for service again;
+ * everything about cleaning it starts over.
+ */
+const carryOver = (
+  room: { id: number; number: string; bedType: string | null },
+  previous: RoomAssignment | undefined,
+  propertyId: string,
+  businessDate: Date,
+  now: Date
+): Prisma.RoomAssignmentCreateManyInput => {
+  const occupied = previous?.occupancy === RoomOccupancy.OCCUPIED;
+
+  return {
+    propertyId,
+    roomId: room.id,
+    businessDate,
+    roomNumber: room.number,
+    status: occupied || !previous ? RoomAssignmentStatus.DIRTY : previous.status,
+    occupancy: previous?.occupancy ?? RoomOccupancy.VACANT,
+    guestName: occupied ? previous.guestName : null,
+    occupancyStatus: occupied ? previous.occupancyStatus : null,
+    bedType: room.bedType ?? previous?.bedType ?? null,
+    guestCheckout: upcoming(previous?.guestCheckout ?? null, now),
+    nextCheckin: upcoming(previous?.nextCheckin ?? null, now),
+  };
+};
+
+export class DayRolloverService {
+  /**
+   * Close each property's business day and open the next one: every active
+   * room of the catalog gets an assignment for the new day and the old day's
+   * assignments are archived. A property already on the day is left alone, so
+   * the rollover can run as often as the scheduler likes.
+   */
+  static async rollOver(options: DayRolloverOptions = {}): Promise<DayRolloverResult[]> {
+    try {
+      const properties = await prisma.property.findMany({
+        where: options.propertyId ? { id: options.propertyId } : {},
+        orderBy: { code: "asc" },
+        select: { id: true, code: true, timeZone: true, businessDate: true }
+      });
+
+      const results: DayRolloverResult[] = [];
+      for (const property of properties) {
+        const now = new Date();
+        const target = options.businessDate ?? propertyBusinessDate(now, property.timeZone ?? PROPERTY_TIME_ZONE);
+
+        if (target <= property.businessDate) {
+          results.push({
+            propertyId: property.id,
+            code: property.code,
+            businessDate: toDateString(property.businessDate),
+            rolledOver: false,
+            created: 0,
+            archived: 0
+          });
+          continue;
+        }
+
+        results.push(await this.rollOverProperty(property, target, now));
+      }
+
+      return results;
+    } catch (error) {
+      throw new Error(`Failed to roll over business day: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  private static async rollOverProperty(
+    property: { id: string; code: string; businessDate: Date },
+    target: Date,
+    now: Date
+  ): Promise<DayRolloverResult> {
+    return await prisma.$transaction(async (tx) => {
+      // Only one rollover moves the day; a concurrent one finds it moved already
+      const { count } = await tx.property.updateMany({
+        where: { id: property.id, businessDate: property.businessDate },
+        data: { businessDate: target }
+      });
+      if (count === 0) {
+        const current = await tx.property.findUniqueOrThrow({
+          where: { id: property.id },
+          select: { businessDate: true }
+        });
+        return {
+          propertyId: property.id,
+          code: property.code,
+          businessDate: toDateString(current.businessDate),
+          rolledOver: false,
+          created: 0,
+          archived: 0
+        };
+      }
+
+      const [previous, rooms] = await Promise.all([
+        tx.roomAssignment.findMany({
+          where: { propertyId: property.id, businessDate: { lt: target }, deletedAt: null, archivedAt: null },
+          orderBy: { businessDate: "asc" }
+        }),
+        tx.room.findMany({
+          where: { propertyId: property.id, active: true },
+          select: { id: true, number: true, bedType: true }
+        })
+      ]);
+
+      // The latest day wins when an earlier rollover was missed
+      const previousByRoom = new Map(previous.map((assignment) => [assignment.roomId, assignment]));
+
+      const created = await tx.roomAssignment.createManyAndReturn({
+        data: rooms.map((room) => carryOver(room, previousByRoom.get(room.id), property.id, target, now)),
+        skipDuplicates: true
+      });
+
+      if (previous.length > 0) {
+        await tx.roomAssignment.updateMany({
+          where: { id: { in: previous.map((assignment) => assignment.id) } },
+          data: { archivedAt: now, version: { increment: 1 }, updatedAt: now }
+        });
+      }
+
+      await tx.roomAssignmentEvent.createMany({
+        data: [
+          ...created.map((assignment) => ({
+            roomAssignmentId: assignment.id,
+            type: RoomAssignmentEventType.CREATED,
+            source: RoomAssignmentEventSource.SYSTEM,
+            changes: diffFields(null, assignment, CARRIED_FIELDS) as unknown as Prisma.InputJsonValue,
+            version: assignment.version
+          })),
+          ...previous.map((assignment) => ({
+            roomAssignmentId: assignment.id,
+            type: RoomAssignmentEventType.ARCHIVED,
+            source: RoomAssignmentEventSource.SYSTEM,
+            changes: [{ field: "archivedAt", from: null, to: now.toISOString() }],
+            version: assignment.version + 1
+          }))
+        ]
+      });
+
+      return {
+        propertyId: property.id,
+        code: property.code,
+        businessDate: toDateString(target),
+        rolledOver: true,
+        created: created.length,
+        archived: previous.length
+      };
+    }, { timeout: 30000 }); // Large properties need more than the default five seconds
+  }
+}
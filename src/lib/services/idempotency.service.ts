@@ -0,0 +1,120 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma, ProcessedMutation } from "@/generated/prisma";
+
+// Long enough to cover devices that stay offline for several days
+const RETENTION_DAYS = 7;
+
+// A claim this old belongs to a request that died before finishing
+const PENDING_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Keys belong to the caller and the property they act in
+export interface IdempotencyScope {
+  userId: string;
+  propertyId: string;
+}
+
+export interface ClaimMutationData extends IdempotencyScope {
+  key: string;
+  method: string;
+  path: string;
+  requestHash: string;
+}
+
+export interface MutationOutcome {
+  statusCode: number;
+  response: Prisma.InputJsonValue;
+  etag?: string | null;
+}
+
+const keyOf = ({ userId, propertyId }: IdempotencyScope, key: string) => ({
+  userId_propertyId_key: { userId, propertyId, key }
+});
+
+export class IdempotencyService {
+  /**
+   * Claim a key before its request runs. Returns null when the claim is
+   * taken, otherwise the record that already holds the key: finished ones
+   * carry the stored response, pending ones have no status code yet.
+   */
+  static async claimMutation(data: ClaimMutationData): Promise<ProcessedMutation | null> {
+    try {
+      await prisma.processedMutation.create({ data });
+      return null;
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002")) {
+        throw new Error(`Failed to claim Idempotency-Key: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+      }
+    }
+
+    let existing;
+    let takenOver = false;
+    try {
+      existing = await prisma.processedMutation.findUnique({
+        where: keyOf(data, data.key)
+      });
+
+      const stale = existing?.statusCode === null
+        && existing.createdAt.getTime() < Date.now() - PENDING_TIMEOUT_MS;
+      if (existing && stale) {
+        // Only one request takes over an abandoned claim
+        const { count } = await prisma.processedMutation.deleteMany({
+          where: { userId: data.userId, propertyId: data.propertyId, key: data.key, statusCode: null, createdAt: existing.createdAt }
+        });
+        takenOver = count > 0;
+      }
+    } catch (error) {
+      throw new Error(`Failed to claim Idempotency-Key: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+
+    // Released since the insert failed, or abandoned; try the claim again
+    if (!existing || takenOver) {
+      return this.claimMutation(data);
+    }
+    return existing;
+  }
+
+  /**
+   * Store the outcome of a claimed mutation and drop records past retention
+   */
+  static async completeMutation(scope: IdempotencyScope, key: string, outcome: MutationOutcome) {
+    try {
+      await prisma.processedMutation.update({
+        where: keyOf(scope, key),
+        data: outcome
+      });
+    } catch (error) {
+      throw new Error(`Failed to record processed mutation: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+
+    await this.purgeExpired();
+  }
+
+  /**
+   * Give up a claim so the request can be tried again
+   */
+  static async releaseMutation(scope: IdempotencyScope, key: string) {
+    try {
+      await prisma.processedMutation.deleteMany({
+        where: { ...scope, key, statusCode: null }
+      });
+    } catch (error) {
+      throw new Error(`Failed to release Idempotency-Key: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Delete records older than the retention window
+   */
+  static async purgeExpired() {
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+    try {
+      const { count } = await prisma.processedMutation.deleteMany({
+        where: { createdAt: { lt: cutoff } }
+      });
+      return count;
+    } catch (error) {
+      throw new Error(`Failed to purge processed mutations: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+}
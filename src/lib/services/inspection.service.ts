@@ -0,0 +1,284 @@
+import { prisma } from "@/lib/prisma";
+import { InspectionItemOutcome, RoomAssignmentStatus, ServiceStatus } from "@/generated/prisma";
+import {
+  RoomAssignmentService,
+  RoomAssignmentActor,
+  RoomAssignmentConflictError,
+  RoomAssignmentForbiddenError,
+  RoomAssignmentNotFoundError,
+} from "@/lib/services/room-assignment.service";
+import {
+  CreateInspectionTemplateData,
+  RecordInspectionData,
+  UpdateInspectionTemplateData,
+} from "@/types/inspection";
+
+const templateInclude = {
+  items: { orderBy: { position: "asc" } }
+} as const;
+
+/**
+ * Thrown when no inspection template matches
+ */
+export class InspectionTemplateNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InspectionTemplateNotFoundError";
+  }
+}
+
+/**
+ * Thrown when submitted results do not answer the template's checklist
+ */
+export class InspectionResultsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InspectionResultsError";
+  }
+}
+
+const isKnownError = (error: unknown) =>
+  error instanceof InspectionTemplateNotFoundError ||
+  error instanceof InspectionResultsError ||
+  error instanceof RoomAssignmentNotFoundError ||
+  error instanceof RoomAssignmentConflictError ||
+  error instanceof RoomAssignmentForbiddenError;
+
+export class InspectionService {
+  /**
+   * Get templates, active ones only unless `includeInactive`
+   */
+  static async listTemplates(includeInactive = false) {
+    try {
+      return await prisma.inspectionTemplate.findMany({
+        where: includeInactive ? {} : { active: true },
+        orderBy: [{ roomType: "asc" }, { name: "asc" }],
+        include: templateInclude
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch inspection templates: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Get template by ID
+   */
+  static async getTemplate(id: string) {
+    try {
+      const template = await prisma.inspectionTemplate.findUnique({
+        where: { id },
+        include: templateInclude
+      });
+
+      if (!template) {
+        throw new InspectionTemplateNotFoundError(`Inspection template with ID ${id} not found`);
+      }
+
+      return template;
+    } catch (error) {
+      if (isKnownError(error)) throw error;
+      throw new Error(`Failed to fetch inspection template: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Create template
+   */
+  static async createTemplate(data: CreateInspectionTemplateData) {
+    try {
+      return await prisma.inspectionTemplate.create({
+        data: {
+          name: data.name,
+          roomType: data.roomType ?? null,
+          passingScore: data.passingScore,
+          items: {
+            create: data.items.map((item, position) => ({ ...item, position }))
+          }
+        },
+        include: templateInclude
+      });
+    } catch (error) {
+      throw new Error(`Failed to create inspection template: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Update template. Sending items replaces the checklist; past inspections
+   * keep their own copy of the items they were scored on.
+   */
+  static async updateTemplate(id: string, data: UpdateInspectionTemplateData) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const existing = await tx.inspectionTemplate.findUnique({ where: { id } });
+        if (!existing) {
+          throw new InspectionTemplateNotFoundError(`Inspection template with ID ${id} not found`);
+        }
+
+        if (data.items) {
+          await tx.inspectionTemplateItem.deleteMany({ where: { templateId: id } });
+        }
+
+        return await tx.inspectionTemplate.update({
+          where: { id },
+          data: {
+            name: data.name,
+            roomType: data.roomType,
+            passingScore: data.passingScore,
+            active: data.active,
+            ...(data.items && {
+              items: {
+                create: data.items.map((item, position) => ({ ...item, position }))
+              }
+            })
+          },
+          include: templateInclude
+        });
+      });
+    } catch (error) {
+      if (isKnownError(error)) throw error;
+      throw new Error(`Failed to update inspection template: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Template to inspect a room with: the newest active one for its room type,
+   * falling back to the newest active default template
+   */
+  static async getTemplateForRoom(roomId: number, propertyId: string) {
+    try {
+      const room = await RoomAssignmentService.getAssignmentById(roomId, propertyId);
+      const { roomType } = await prisma.room.findUniqueOrThrow({
+        where: { id: room.roomId },
+        select: { roomType: true }
+      });
+
+      // The catalog's room type decides, older rooms only have a bed type
+      const type = roomType ?? room.bedType;
+      const template =
+        (type &&
+          await prisma.inspectionTemplate.findFirst({
+            where: { active: true, roomType: { equals: type, mode: "insensitive" } },
+            orderBy: { createdAt: "desc" },
+            include: templateInclude
+          })) ||
+        await prisma.inspectionTemplate.findFirst({
+          where: { active: true, roomType: null },
+          orderBy: { createdAt: "desc" },
+          include: templateInclude
+        });
+
+      if (!template) {
+        throw new InspectionTemplateNotFoundError(`No inspection template for room ${room.roomNumber}`);
+      }
+
+      return template;
+    } catch (error) {
+      if (isKnownError(error)) throw error;
+      throw new Error(`Failed to fetch inspection template: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Get a room's inspections, newest first
+   */
+  static async getInspections(roomId: number, propertyId: string) {
+    try {
+      return await prisma.inspection.findMany({
+        where: { roomAssignmentId: roomId, roomAssignment: { propertyId } },
+        orderBy: { completedAt: "desc" },
+        include: {
+          results: true,
+          inspector: { select: { id: true, email: true, name: true } }
+        }
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch inspections: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Score an inspection and move the room on. The score is the weighted share
+   * of passed items among those that apply; the room passes when it reaches
+   * the template's passing score and no critical item failed. A pass marks
+   * the room INSPECTED; a fail sends it back to DIRTY with the failed items
+   * as its rework note and its cleaning checklist cleared. Only CLEAN rooms
+   * can be inspected.
+   */
+  static async recordInspection(
+    roomId: number,
+    data: RecordInspectionData,
+    actor: RoomAssignmentActor,
+    propertyId: string,
+    expectedVersion?: number
+  ) {
+    try {
+      const template = await this.getTemplate(data.templateId);
+
+      const resultsByItem = new Map(data.results.map((result) => [result.itemId, result]));
+      const unknown = data.results.filter((result) => !template.items.some((item) => item.id === result.itemId));
+      if (unknown.length > 0) {
+        throw new InspectionResultsError(`Results for items not on the checklist: ${unknown.map((result) => result.itemId).join(", ")}`);
+      }
+
+      const missing = template.items.filter((item) => !resultsByItem.has(item.id));
+      if (missing.length > 0) {
+        throw new InspectionResultsError(`Checklist items not answered: ${missing.map((item) => item.label).join(", ")}`);
+      }
+
+      const scored = template.items.map((item) => ({ item, result: resultsByItem.get(item.id)! }));
+      const applicable = scored.filter(({ result }) => result.outcome !== InspectionItemOutcome.NOT_APPLICABLE);
+      const failed = applicable.filter(({ result }) => result.outcome === InspectionItemOutcome.FAIL);
+
+      const totalWeight = applicable.reduce((sum, { item }) => sum + item.weight, 0);
+      const passedWeight = totalWeight - failed.reduce((sum, { item }) => sum + item.weight, 0);
+      const score = totalWeight === 0 ? 100 : Math.round((passedWeight / totalWeight) * 100);
+      const passed = score >= template.passingScore && !failed.some(({ item }) => item.critical);
+
+      const reworkNote = passed
+        ? null
+        : [
+            `Failed inspection (score ${score}/100):`,
+            ...failed.map(({ item, result }) => `- ${item.label}${result.notes ? `: ${result.notes}` : ""}`)
+          ].join("\n");
+
+      return await prisma.$transaction(async (tx) => {
+        const assignment = await RoomAssignmentService.applyVersionedUpdate(
+          tx,
+          roomId,
+          passed
+            ? { status: RoomAssignmentStatus.INSPECTED, reworkNote: null }
+            : { status: RoomAssignmentStatus.DIRTY, serviceStatus: ServiceStatus.PENDING, reworkNote },
+          { expectedVersion, actor, propertyId, inspection: true }
+        );
+
+        const inspection = await tx.inspection.create({
+          data: {
+            roomAssignmentId: roomId,
+            templateId: template.id,
+            inspectorId: actor.id,
+            score,
+            passed,
+            notes: data.notes,
+            startedAt: data.startedAt,
+            results: {
+              create: scored.map(({ item, result }) => ({
+                templateItemId: item.id,
+                label: item.label,
+                weight: item.weight,
+                critical: item.critical,
+                outcome: result.outcome,
+                notes: result.notes
+              }))
+            }
+          },
+          include: { results: true }
+        });
+
+        return { inspection, assignment };
+      });
+    } catch (error) {
+      if (isKnownError(error)) throw error;
+      throw new Error(`Failed to record inspection: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma, UserRole } from "@/generated/prisma";
+import { hasRole } from "@/lib/roles";
+import { PROPERTY_TIME_ZONE, propertyBusinessDate } from "@/lib/property-time";
+import { CreatePropertyData } from "@/types/property";
+
+const propertyInclude = {
+  buildings: {
+    orderBy: { name: "asc" },
+    include: { floors: { orderBy: { level: "asc" } } }
+  }
+} as const;
+
+/**
+ * Thrown when a property with the code already exists
+ */
+export class PropertyCodeTakenError extends Error {
+  constructor(code: string) {
+    super(`Property with code ${code} already exists`);
+    this.name = "PropertyCodeTakenError";
+  }
+}
+
+// Whose properties are asked for; admins reach every property
+export interface PropertyMemberRef {
+  id: string;
+  role: UserRole;
+}
+
+export class PropertyService {
+  /**
+   * Get the properties a user works at, with their buildings and floors
+   */
+  static async listProperties(user: PropertyMemberRef) {
+    try {
+      return await prisma.property.findMany({
+        where: hasRole(user.role, UserRole.ADMIN) ? {} : { members: { some: { userId: user.id } } },
+        orderBy: { name: "asc" },
+        include: propertyInclude
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch properties: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * IDs of the properties a user may act in
+   */
+  static async getPropertyIds(user: PropertyMemberRef): Promise<string[]> {
+    try {
+      const properties = await prisma.property.findMany({
+        where: hasRole(user.role, UserRole.ADMIN) ? {} : { members: { some: { userId: user.id } } },
+        orderBy: { name: "asc" },
+        select: { id: true }
+      });
+      return properties.map((property) => property.id);
+    } catch (error) {
+      throw new Error(`Failed to fetch user properties: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Create a property with its buildings and floors. The creator becomes a
+   * member so it shows up in their switcher straight away.
+   */
+  static async createProperty(actorId: string, data: CreatePropertyData) {
+    try {
+      return await prisma.property.create({
+        data: {
+          code: data.code,
+          name: data.name,
+          timeZone: data.timeZone ?? null,
+          businessDate: propertyBusinessDate(new Date(), data.timeZone ?? PROPERTY_TIME_ZONE),
+          members: { create: { userId: actorId } },
+          buildings: {
+            create: data.buildings.map((building) => ({
+              name: building.name,
+              floors: { create: building.floors }
+            }))
+          }
+        },
+        include: propertyInclude
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002" &&
+        (error.meta?.target as string[] | undefined)?.includes("code")
+      ) {
+        throw new PropertyCodeTakenError(data.code);
+      }
+      throw new Error(`Failed to create property: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+}
@@ -1,46 +1,229 @@
 import { prisma } from "@/lib/prisma";
-import { RoomAssignmentStatus, RoomAssignmentPriority, RoomOccupancy, ServiceStatus } from "@/generated/prisma";
+import { CleaningServiceType, Prisma, RoomAssignment, RoomAssignmentEventSource, RoomAssignmentEventType, RoomAssignmentStatus, RoomAssignmentPriority, RoomOccupancy, ServiceStatus, UserRole } from "@/generated/prisma";
+import { hasRole } from "@/lib/roles";
+import { openSteps, serviceTypeOf } from "@/lib/cleaning-checklist";
+import { ChangeSource } from "@/lib/change-source";
+import { RoomFloorError, RoomService } from "@/lib/services/room.service";
 
 export interface CreateRoomAssignmentData {
+  propertyId: string;
+  floorId?: string | null; // Only used when the room is new to the catalog
   roomNumber: string;
   status?: RoomAssignmentStatus;
   priority?: RoomAssignmentPriority;
   occupancy?: RoomOccupancy;
-  checkoutTime?: string;
-  estimatedTime?: string;
-  notes?: string;
-  guestCheckout?: string;
-  nextCheckin?: string;
-  guestName?: string;
-  occupancyStatus?: string;
-  bedType?: string;
+  checkoutTime?: Date | string | null;
+  estimatedMinutes?: number | null;
+  notes?: string | null;
+  guestCheckout?: Date | string | null;
+  nextCheckin?: Date | string | null;
+  guestName?: string | null;
+  occupancyStatus?: string | null;
+  bedType?: string | null;
   serviceStatus?: ServiceStatus;
-  assignedTo?: string;
+  assignedTo?: string | null;
+  cleaningType?: CleaningServiceType | null;
 }
 
 export interface UpdateRoomAssignmentData {
   status?: RoomAssignmentStatus;
   priority?: RoomAssignmentPriority;
   occupancy?: RoomOccupancy;
-  checkoutTime?: string;
-  estimatedTime?: string;
-  notes?: string;
-  guestCheckout?: string;
-  nextCheckin?: string;
-  guestName?: string;
-  occupancyStatus?: string;
-  bedType?: string;
+  checkoutTime?: Date | string | null;
+  estimatedMinutes?: number | null;
+  notes?: string | null;
+  guestCheckout?: Date | string | null;
+  nextCheckin?: Date | string | null;
+  guestName?: string | null;
+  occupancyStatus?: string | null;
+  bedType?: string | null;
   serviceStatus?: ServiceStatus;
-  assignedTo?: string;
+  assignedTo?: string | null;
+  reworkNote?: string | null;
+  cleaningType?: CleaningServiceType | null;
+  completedSteps?: string[];
 }
 
+// The user a change is made on behalf of; role rules apply when given
+export interface RoomAssignmentActor {
+  id: string;
+  role: UserRole;
+}
+
+export interface RoomChangeOptions {
+  actor?: RoomAssignmentActor;
+  // Recorded in the room's history; a web change when not given
+  origin?: ChangeSource;
+  // Rooms of any other property are treated as not found
+  propertyId?: string;
+}
+
+export interface UpdateAssignmentOptions extends RoomChangeOptions {
+  // Version the caller based its changes on; the update is rejected when the
+  // stored row has moved on since then
+  expectedVersion?: number;
+  // Set by InspectionService; only a recorded inspection marks a room INSPECTED
+  inspection?: boolean;
+}
+
+export interface BulkUpdateItem {
+  id: number;
+  data: UpdateRoomAssignmentData;
+  expectedVersion?: number;
+  deviceTime?: Date;
+}
+
+export interface BulkUpdateOptions extends RoomChangeOptions {
+  // When true every update is applied in a single transaction and the whole
+  // batch is rolled back on the first failure. When false each update is
+  // applied independently and failures are reported per room.
+  atomic?: boolean;
+}
+
+export interface BulkUpdateResult {
+  id: number;
+  success: boolean;
+  assignment?: RoomAssignment;
+  error?: string;
+  conflict?: boolean;
+  current?: RoomAssignment;
+  forbidden?: boolean;
+}
+
+export interface RoomAssignmentTombstone {
+  id: number;
+  roomNumber: string;
+  deletedAt: Date;
+}
+
+export interface RoomAssignmentChanges {
+  changed: RoomAssignment[];
+  deleted: RoomAssignmentTombstone[];
+  // Newest updatedAt among the returned rows, null when nothing changed
+  latestUpdatedAt: Date | null;
+}
+
+// One field of a room as it was before and after a change
+export interface RoomFieldChange {
+  field: string;
+  from: Prisma.JsonValue;
+  to: Prisma.JsonValue;
+}
+
+// Rows written just before a pull may commit after it; re-reading a short
+// window behind the cursor picks them up on the next pull
+const CHANGE_FEED_OVERLAP_MS = 5000;
+
+/**
+ * Thrown when the assignment does not exist, was deleted or is in another property
+ */
+export class RoomAssignmentNotFoundError extends Error {
+  constructor(id: number) {
+    super(`Room assignment with ID ${id} not found`);
+    this.name = "RoomAssignmentNotFoundError";
+  }
+}
+
+/**
+ * Thrown when a room already has an assignment for the business day
+ */
+export class RoomAssignmentExistsError extends Error {
+  constructor(roomNumber: string) {
+    super(`Room ${roomNumber} already has an assignment`);
+    this.name = "RoomAssignmentExistsError";
+  }
+}
+
+/**
+ * Thrown when an update's expected version no longer matches the stored row
+ */
+export class RoomAssignmentConflictError extends Error {
+  constructor(public readonly current: RoomAssignment, expectedVersion: number) {
+    super(`Room assignment ${current.id} is at version ${current.version}, expected ${expectedVersion}`);
+    this.name = "RoomAssignmentConflictError";
+  }
+}
+
+/**
+ * Thrown when a room is assigned to a user who does not exist or is deactivated
+ */
+export class RoomAssigneeError extends Error {
+  constructor(public readonly userId: string) {
+    super(`User ${userId} does not exist or is deactivated and cannot be assigned rooms`);
+    this.name = "RoomAssigneeError";
+  }
+}
+
+/**
+ * Thrown when the acting user's role does not allow a change
+ */
+export class RoomAssignmentForbiddenError extends Error {
+  constructor(public readonly roomId: number, message: string) {
+    super(message);
+    this.name = "RoomAssignmentForbiddenError";
+  }
+}
+
+/**
+ * Thrown when an attendant marks a room CLEAN with checklist steps still open
+ */
+export class RoomAssignmentChecklistError extends RoomAssignmentForbiddenError {
+  constructor(roomId: number, roomNumber: string, steps: string[]) {
+    super(roomId, `Finish the cleaning checklist for room ${roomNumber} first: ${steps.join(", ")}`);
+    this.name = "RoomAssignmentChecklistError";
+  }
+}
+
+/**
+ * Thrown when a room of a business day that has been rolled over is changed
+ */
+export class RoomAssignmentArchivedError extends RoomAssignmentForbiddenError {
+  constructor(assignment: RoomAssignment) {
+    super(
+      assignment.id,
+      `Room ${assignment.roomNumber} belongs to ${assignment.businessDate.toISOString().slice(0, 10)}, which is closed`
+    );
+    this.name = "RoomAssignmentArchivedError";
+  }
+}
+
+// Timestamps may arrive as ISO strings in any offset, so they are compared as instants
+const sameValue = (value: unknown, current: unknown) =>
+  current instanceof Date && (typeof value === "string" || value instanceof Date)
+    ? new Date(value).getTime() === current.getTime()
+    : value === current;
+
+const toJsonValue = (value: unknown): Prisma.JsonValue =>
+  value instanceof Date ? value.toISOString() : (value ?? null) as Prisma.JsonValue;
+
+// Fields of `after` that differ from `before`; a missing `before` counts every set field
+export const diffFields = (
+  before: RoomAssignment | null,
+  after: RoomAssignment,
+  fields: ReadonlyArray<string>
+): RoomFieldChange[] => {
+  const changes: RoomFieldChange[] = [];
+  for (const field of fields) {
+    const from = toJsonValue(before?.[field as keyof RoomAssignment]);
+    const to = toJsonValue(after[field as keyof RoomAssignment]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+  }
+  return changes;
+};
+
+// Fields attendants may change, and only on rooms assigned to them
+const ATTENDANT_EDITABLE_FIELDS: ReadonlyArray<keyof UpdateRoomAssignmentData> = ["serviceStatus", "status", "notes", "completedSteps"];
+
 export class RoomAssignmentService {
   /**
    * Get all room assignments with optional filtering and sorting
    */
-  static async getAllAssignments() {
+  static async getAllAssignments(propertyId: string) {
     try {
       const assignments = await prisma.roomAssignment.findMany({
+        where: { propertyId, deletedAt: null, archivedAt: null },
         orderBy: [
           { priority: "desc" },
           { createdAt: "desc" }
@@ -48,96 +231,510 @@ export class RoomAssignmentService {
       });
       return assignments;
     } catch (error) {
-      throw new Error(`Failed to fetch room assignments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to fetch room assignments: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
   /**
-   * Get room assignment by ID
+   * Get assignments created, updated, deleted or archived after `since`.
+   * Without `since` every live assignment is returned and no tombstones.
+   * Archived assignments leave the feed as tombstones like deleted ones.
    */
-  static async getAssignmentById(id: number) {
+  static async getChangesSince(propertyId: string, since?: Date): Promise<RoomAssignmentChanges> {
+    try {
+      const rows = await prisma.roomAssignment.findMany({
+        where: since
+          ? { propertyId, updatedAt: { gt: new Date(since.getTime() - CHANGE_FEED_OVERLAP_MS) } }
+          : { propertyId, deletedAt: null, archivedAt: null },
+        orderBy: [
+          { updatedAt: "asc" },
+          { id: "asc" }
+        ]
+      });
+
+      const gone = (row: RoomAssignment) => row.deletedAt ?? row.archivedAt;
+
+      return {
+        changed: rows.filter((row) => !gone(row)),
+        deleted: rows
+          .filter((row) => gone(row))
+          .map((row) => ({ id: row.id, roomNumber: row.roomNumber, deletedAt: gone(row)! })),
+        latestUpdatedAt: rows.length > 0 ? rows[rows.length - 1].updatedAt : null
+      };
+    } catch (error) {
+      throw new Error(`Failed to fetch room assignment changes: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Get live assignments, only those assigned to `assignedTo` when given
+   */
+  static async getAssignments(propertyId: string, filter: { assignedTo?: string } = {}) {
+    return filter.assignedTo
+      ? this.getAssignmentsByUser(filter.assignedTo, propertyId)
+      : this.getAllAssignments(propertyId);
+  }
+
+  /**
+   * Get a live room assignment by ID, only within `propertyId` when given
+   */
+  static async getAssignmentById(id: number, propertyId?: string) {
     try {
       const assignment = await prisma.roomAssignment.findUnique({
         where: { id }
       });
       
-      if (!assignment) {
-        throw new Error(`Room assignment with ID ${id} not found`);
+      if (
+        !assignment ||
+        assignment.deletedAt ||
+        assignment.archivedAt ||
+        (propertyId && assignment.propertyId !== propertyId)
+      ) {
+        throw new RoomAssignmentNotFoundError(id);
       }
       
       return assignment;
     } catch (error) {
-      throw new Error(`Failed to fetch room assignment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (error instanceof RoomAssignmentNotFoundError) throw error;
+      throw new Error(`Failed to fetch room assignment: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
   /**
-   * Create new room assignment
+   * Create the assignment of a room for the property's current business day.
+   * A room number the catalog does not know yet is added to it.
    */
-  static async createAssignment(data: CreateRoomAssignmentData) {
+  static async createAssignment(data: CreateRoomAssignmentData, options: RoomChangeOptions = {}) {
+    const { actor, origin } = options;
+
     try {
-      // Check if room number already exists
-      const existingRoom = await prisma.roomAssignment.findUnique({
-        where: { roomNumber: data.roomNumber }
-      });
+      return await prisma.$transaction(async (tx) => {
+        const { businessDate } = await tx.property.findUniqueOrThrow({
+          where: { id: data.propertyId },
+          select: { businessDate: true }
+        });
+        const room = await RoomService.ensureRoom(tx, data.propertyId, {
+          number: data.roomNumber,
+          floorId: data.floorId,
+          bedType: data.bedType
+        });
 
-      if (existingRoom) {
-        throw new Error(`Room ${data.roomNumber} already has an assignment`);
-      }
+        const existingRoom = await tx.roomAssignment.findUnique({
+          where: { roomId_businessDate: { roomId: room.id, businessDate } }
+        });
 
-      // Create assignment with default values
-      const assignment = await prisma.roomAssignment.create({
-        data: {
-          roomNumber: data.roomNumber,
+        if (existingRoom && !existingRoom.deletedAt) {
+          throw new RoomAssignmentExistsError(data.roomNumber);
+        }
+
+        // Assignment with default values
+        const assignmentData = {
+          propertyId: data.propertyId,
+          roomId: room.id,
+          businessDate,
+          roomNumber: room.number,
           status: data.status || RoomAssignmentStatus.DIRTY,
           priority: data.priority || RoomAssignmentPriority.MEDIUM,
           occupancy: data.occupancy || RoomOccupancy.VACANT,
           serviceStatus: data.serviceStatus || ServiceStatus.PENDING,
           checkoutTime: data.checkoutTime,
-          estimatedTime: data.estimatedTime,
+          estimatedMinutes: data.estimatedMinutes,
           notes: data.notes,
           guestCheckout: data.guestCheckout,
           nextCheckin: data.nextCheckin,
           guestName: data.guestName,
           occupancyStatus: data.occupancyStatus,
-          bedType: data.bedType,
+          bedType: data.bedType ?? room.bedType,
           assignedTo: data.assignedTo,
+          cleaningType: data.cleaningType,
+        };
+
+        if (data.assignedTo) {
+          await this.assertAssignable(tx, data.assignedTo, data.propertyId);
         }
-      });
 
-      return assignment;
+        // A deleted assignment still owns the room's day, so it is brought back
+        // with the new data; clients see the revived row through the change feed
+        const assignment = existingRoom
+          ? await tx.roomAssignment.update({
+              where: { id: existingRoom.id },
+              data: {
+                ...assignmentData,
+                deletedAt: null,
+                version: { increment: 1 }
+              }
+            })
+          : await tx.roomAssignment.create({
+              data: assignmentData
+            });
+
+        const previousAssignee = existingRoom?.assignedTo ?? null;
+        if (assignment.assignedTo !== previousAssignee) {
+          await this.recordAssigneeChange(tx, assignment.id, previousAssignee, assignment.assignedTo, actor);
+        }
+
+        // A revived room is compared with its tombstone, so only what differs is listed
+        await this.recordEvent(tx, assignment, RoomAssignmentEventType.CREATED, {
+          changes: diffFields(existingRoom, assignment, Object.keys(assignmentData)),
+          actor,
+          origin
+        });
+
+        return assignment;
+      });
     } catch (error) {
-      throw new Error(`Failed to create room assignment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (
+        error instanceof RoomAssignmentExistsError ||
+        error instanceof RoomAssigneeError ||
+        error instanceof RoomFloorError
+      ) {
+        throw error;
+      }
+      throw new Error(`Failed to create room assignment: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
   /**
    * Update room assignment
    */
-  static async updateAssignment(id: number, data: UpdateRoomAssignmentData) {
+  static async updateAssignment(id: number, data: UpdateRoomAssignmentData, options: UpdateAssignmentOptions = {}) {
     try {
-      // Check if assignment exists
-      const existingAssignment = await prisma.roomAssignment.findUnique({
-        where: { id }
-      });
-
-      if (!existingAssignment) {
-        throw new Error(`Room assignment with ID ${id} not found`);
+      return await prisma.$transaction((tx) =>
+        this.applyVersionedUpdate(tx, id, data, options)
+      );
+    } catch (error) {
+      if (
+        error instanceof RoomAssignmentNotFoundError ||
+        error instanceof RoomAssignmentConflictError ||
+        error instanceof RoomAssignmentForbiddenError ||
+        error instanceof RoomAssigneeError
+      ) {
+        throw error;
       }
+      throw new Error(`Failed to update room assignment: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
 
-      // Update assignment
-      const updatedAssignment = await prisma.roomAssignment.update({
-        where: { id },
-        data: {
-          ...data,
-          updatedAt: new Date()
+  /**
+   * Assign a room to a user, hand it over to another one, or unassign it
+   * with null. Goes through the same versioned update as any other change.
+   */
+  static async assignRoom(id: number, userId: string | null, options: UpdateAssignmentOptions = {}) {
+    return this.updateAssignment(id, { assignedTo: userId }, options);
+  }
+
+  /**
+   * Get who a room was assigned to over time, newest first
+   */
+  static async getAssigneeHistory(id: number, propertyId: string) {
+    try {
+      return await prisma.roomAssigneeChange.findMany({
+        where: { roomAssignmentId: id, roomAssignment: { propertyId } },
+        orderBy: { changedAt: "desc" },
+        include: {
+          fromUser: { select: { id: true, email: true, name: true } },
+          toUser: { select: { id: true, email: true, name: true } },
+          changedBy: { select: { id: true, email: true, name: true } }
         }
       });
+    } catch (error) {
+      throw new Error(`Failed to fetch assignee history: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
 
-      return updatedAssignment;
+  /**
+   * Get every recorded change to a room, newest first
+   */
+  static async getHistory(id: number, propertyId: string) {
+    try {
+      return await prisma.roomAssignmentEvent.findMany({
+        where: { roomAssignmentId: id, roomAssignment: { propertyId } },
+        orderBy: [{ createdAt: "desc" }, { version: "desc" }],
+        include: {
+          actor: { select: { id: true, email: true, name: true } }
+        }
+      });
     } catch (error) {
-      throw new Error(`Failed to update room assignment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to fetch room assignment history: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Only active users working at the room's property can be handed rooms
+   */
+  private static async assertAssignable(tx: Prisma.TransactionClient, userId: string, propertyId: string) {
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { active: true, properties: { where: { propertyId }, select: { propertyId: true } } }
+    });
+
+    if (!user?.active || user.properties.length === 0) {
+      throw new RoomAssigneeError(userId);
+    }
+  }
+
+  private static async recordAssigneeChange(
+    tx: Prisma.TransactionClient,
+    roomAssignmentId: number,
+    fromUserId: string | null,
+    toUserId: string | null,
+    actor?: RoomAssignmentActor
+  ) {
+    await tx.roomAssigneeChange.create({
+      data: {
+        roomAssignmentId,
+        fromUserId,
+        toUserId,
+        changedById: actor?.id ?? null
+      }
+    });
+  }
+
+  private static async recordEvent(
+    tx: Prisma.TransactionClient,
+    assignment: RoomAssignment,
+    type: RoomAssignmentEventType,
+    { changes, actor, origin }: { changes: RoomFieldChange[]; actor?: RoomAssignmentActor; origin?: ChangeSource }
+  ) {
+    await tx.roomAssignmentEvent.create({
+      data: {
+        roomAssignmentId: assignment.id,
+        type,
+        source: origin?.source ?? RoomAssignmentEventSource.WEB,
+        actorId: actor?.id ?? null,
+        changes: changes as unknown as Prisma.InputJsonValue,
+        version: assignment.version,
+        deviceTime: origin?.deviceTime ?? null
+      }
+    });
+  }
+
+  /**
+   * Role rules for changing an assignment. Attendants may only change the
+   * cleaning fields of rooms assigned to them. Fields sent with their current
+   * value are not counted as changes.
+   */
+  private static assertCanUpdate(actor: RoomAssignmentActor, assignment: RoomAssignment, data: UpdateRoomAssignmentData) {
+    const changedFields = (Object.keys(data) as Array<keyof UpdateRoomAssignmentData>)
+      .filter((field) => data[field] !== undefined && !sameValue(data[field], assignment[field]));
+
+    if (hasRole(actor.role, UserRole.SUPERVISOR) || changedFields.length === 0) {
+      return;
+    }
+
+    if (assignment.assignedTo !== actor.id) {
+      throw new RoomAssignmentForbiddenError(assignment.id, `Room ${assignment.roomNumber} is not assigned to you`);
+    }
+
+    const restricted = changedFields.filter((field) => !ATTENDANT_EDITABLE_FIELDS.includes(field));
+    if (restricted.length > 0) {
+      throw new RoomAssignmentForbiddenError(assignment.id, `Attendants cannot change ${restricted.join(", ")}`);
+    }
+  }
+
+  /**
+   * A room becomes INSPECTED only through a recorded inspection, and only
+   * rooms that are CLEAN can be inspected
+   */
+  private static assertInspectionRules(assignment: RoomAssignment, data: UpdateRoomAssignmentData, inspection: boolean) {
+    if (inspection && assignment.status !== RoomAssignmentStatus.CLEAN) {
+      throw new RoomAssignmentForbiddenError(assignment.id, `Room ${assignment.roomNumber} must be CLEAN before it is inspected`);
+    }
+
+    if (
+      !inspection &&
+      data.status === RoomAssignmentStatus.INSPECTED &&
+      assignment.status !== RoomAssignmentStatus.INSPECTED
+    ) {
+      throw new RoomAssignmentForbiddenError(assignment.id, "Record an inspection to mark a room as inspected");
+    }
+  }
+
+  /**
+   * Attendants cannot mark a room CLEAN until every step of its cleaning
+   * checklist is ticked; supervisors and above may override
+   */
+  private static async assertChecklistComplete(
+    tx: Prisma.TransactionClient,
+    actor: RoomAssignmentActor,
+    assignment: RoomAssignment,
+    data: UpdateRoomAssignmentData
+  ) {
+    if (
+      data.status !== RoomAssignmentStatus.CLEAN ||
+      assignment.status === RoomAssignmentStatus.CLEAN ||
+      hasRole(actor.role, UserRole.SUPERVISOR)
+    ) {
+      return;
+    }
+
+    const room = { ...assignment, ...data };
+    const template = await tx.cleaningChecklistTemplate.findFirst({
+      where: { active: true, serviceType: serviceTypeOf(room) },
+      orderBy: { createdAt: "desc" },
+      include: { steps: { orderBy: { position: "asc" } } }
+    });
+
+    const open = openSteps(template ?? undefined, room);
+    if (open.length > 0) {
+      throw new RoomAssignmentChecklistError(assignment.id, assignment.roomNumber, open.map((step) => step.label));
+    }
+  }
+
+  /**
+   * Compare-and-swap update: the version check and the write happen in one
+   * statement, so two writers holding the same base version cannot both win.
+   * Exposed for services that change a room as part of a larger transaction.
+   */
+  static async applyVersionedUpdate(
+    tx: Prisma.TransactionClient,
+    id: number,
+    data: UpdateRoomAssignmentData,
+    options: UpdateAssignmentOptions = {}
+  ) {
+    const { expectedVersion, actor, origin, propertyId, inspection = false } = options;
+
+    // The stored row is needed for role checks and the room's history
+    const existing = await tx.roomAssignment.findUnique({
+      where: { id }
+    });
+
+    if (!existing || existing.deletedAt || (propertyId && existing.propertyId !== propertyId)) {
+      throw new RoomAssignmentNotFoundError(id);
+    }
+
+    if (existing.archivedAt) {
+      throw new RoomAssignmentArchivedError(existing);
+    }
+
+    this.assertInspectionRules(existing, data, inspection);
+
+    if (actor) {
+      this.assertCanUpdate(actor, existing, data);
+      await this.assertChecklistComplete(tx, actor, existing, data);
+    }
+
+    // A room sent back to DIRTY has its checklist worked through again
+    const written: UpdateRoomAssignmentData =
+      data.status === RoomAssignmentStatus.DIRTY && existing.status !== RoomAssignmentStatus.DIRTY
+        ? { ...data, completedSteps: [] }
+        : data;
+
+    const assigneeChanged = data.assignedTo !== undefined && data.assignedTo !== existing.assignedTo;
+    if (assigneeChanged && data.assignedTo) {
+      await this.assertAssignable(tx, data.assignedTo, existing.propertyId);
+    }
+
+    const { count } = await tx.roomAssignment.updateMany({
+      where: {
+        id,
+        deletedAt: null,
+        archivedAt: null,
+        ...(expectedVersion !== undefined && { version: expectedVersion }),
+        ...(inspection && { status: RoomAssignmentStatus.CLEAN })
+      },
+      data: {
+        ...written,
+        version: { increment: 1 },
+        updatedAt: new Date()
+      }
+    });
+
+    const assignment = await tx.roomAssignment.findUnique({
+      where: { id }
+    });
+
+    if (!assignment || assignment.deletedAt) {
+      throw new RoomAssignmentNotFoundError(id);
+    }
+
+    if (assignment.archivedAt) {
+      throw new RoomAssignmentArchivedError(assignment);
+    }
+
+    if (count === 0) {
+      // Without a base version only the inspection's CLEAN guard stops the write
+      if (expectedVersion === undefined) {
+        throw new RoomAssignmentForbiddenError(id, `Room ${assignment.roomNumber} is no longer CLEAN`);
+      }
+      throw new RoomAssignmentConflictError(assignment, expectedVersion);
+    }
+
+    if (assigneeChanged) {
+      await this.recordAssigneeChange(tx, id, existing.assignedTo, assignment.assignedTo, actor);
     }
+
+    const changes = diffFields(
+      existing,
+      assignment,
+      Object.keys(written).filter((field) => written[field as keyof UpdateRoomAssignmentData] !== undefined)
+    );
+    if (changes.length > 0) {
+      await this.recordEvent(tx, assignment, RoomAssignmentEventType.UPDATED, { changes, actor, origin });
+    }
+
+    return assignment;
+  }
+
+  /**
+   * Apply many updates at once, returning a result for every requested room
+   */
+  static async bulkUpdate(updates: BulkUpdateItem[], options: BulkUpdateOptions = {}): Promise<BulkUpdateResult[]> {
+    const { atomic = true, origin, ...scope } = options;
+    const optionsFor = (update: BulkUpdateItem): UpdateAssignmentOptions => ({
+      ...scope,
+      expectedVersion: update.expectedVersion,
+      origin: origin && { ...origin, deviceTime: update.deviceTime ?? origin.deviceTime }
+    });
+
+    if (atomic) {
+      try {
+        const assignments = await prisma.$transaction(async (tx) => {
+          const updated: RoomAssignment[] = [];
+
+          for (const update of updates) {
+            updated.push(await this.applyVersionedUpdate(tx, update.id, update.data, optionsFor(update)));
+          }
+
+          return updated;
+        });
+
+        return assignments.map((assignment) => ({ id: assignment.id, success: true, assignment }));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        // Nothing was written, so every room in the batch is reported as failed
+        return updates.map((update) => {
+          const isConflict = error instanceof RoomAssignmentConflictError && error.current.id === update.id;
+          const isForbidden = error instanceof RoomAssignmentForbiddenError && error.roomId === update.id;
+          return {
+            id: update.id,
+            success: false,
+            error: `Bulk update rolled back: ${message}`,
+            ...(isConflict && { conflict: true, current: error.current }),
+            ...(isForbidden && { forbidden: true })
+          };
+        });
+      }
+    }
+
+    const results: BulkUpdateResult[] = [];
+
+    for (const update of updates) {
+      try {
+        const assignment = await this.updateAssignment(update.id, update.data, optionsFor(update));
+        results.push({ id: update.id, success: true, assignment });
+      } catch (error) {
+        results.push({
+          id: update.id,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          ...(error instanceof RoomAssignmentConflictError && { conflict: true, current: error.current }),
+          ...(error instanceof RoomAssignmentForbiddenError && { forbidden: true })
+        });
+      }
+    }
+
+    return results;
   }
 
   /**
@@ -156,40 +753,72 @@ export class RoomAssignmentService {
 
       return await this.updateAssignment(id, updateData);
     } catch (error) {
-      throw new Error(`Failed to update room status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to update room status: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
   /**
    * Delete room assignment
    */
-  static async deleteAssignment(id: number) {
+  static async deleteAssignment(id: number, options: RoomChangeOptions = {}) {
+    const { actor, origin, propertyId } = options;
+
     try {
       const existingAssignment = await prisma.roomAssignment.findUnique({
         where: { id }
       });
 
-      if (!existingAssignment) {
-        throw new Error(`Room assignment with ID ${id} not found`);
+      if (!existingAssignment || (propertyId && existingAssignment.propertyId !== propertyId)) {
+        throw new RoomAssignmentNotFoundError(id);
       }
 
-      await prisma.roomAssignment.delete({
-        where: { id }
+      // Deleting twice is a no-op, so a replayed offline deletion succeeds
+      if (existingAssignment.deletedAt) {
+        return { success: true, message: `Room assignment ${existingAssignment.roomNumber} already deleted` };
+      }
+
+      // The day is over and the row already left the dashboard
+      if (existingAssignment.archivedAt) {
+        return { success: true, message: `Room assignment ${existingAssignment.roomNumber} already archived` };
+      }
+
+      // Soft delete: the row stays behind as a tombstone for the change feed.
+      // The room leaves the catalog's active rooms so it is not back tomorrow.
+      await prisma.$transaction(async (tx) => {
+        await tx.room.update({
+          where: { id: existingAssignment.roomId },
+          data: { active: false }
+        });
+
+        const deleted = await tx.roomAssignment.update({
+          where: { id },
+          data: {
+            deletedAt: new Date(),
+            version: { increment: 1 }
+          }
+        });
+
+        await this.recordEvent(tx, deleted, RoomAssignmentEventType.DELETED, {
+          changes: diffFields(existingAssignment, deleted, ["deletedAt"]),
+          actor,
+          origin
+        });
       });
 
       return { success: true, message: `Room assignment ${existingAssignment.roomNumber} deleted successfully` };
     } catch (error) {
-      throw new Error(`Failed to delete room assignment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (error instanceof RoomAssignmentNotFoundError) throw error;
+      throw new Error(`Failed to delete room assignment: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
   /**
    * Get assignments by status
    */
-  static async getAssignmentsByStatus(status: RoomAssignmentStatus) {
+  static async getAssignmentsByStatus(status: RoomAssignmentStatus, propertyId: string) {
     try {
       const assignments = await prisma.roomAssignment.findMany({
-        where: { status },
+        where: { propertyId, status, deletedAt: null, archivedAt: null },
         orderBy: [
           { priority: "desc" },
           { createdAt: "desc" }
@@ -197,32 +826,32 @@ export class RoomAssignmentService {
       });
       return assignments;
     } catch (error) {
-      throw new Error(`Failed to fetch assignments by status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to fetch assignments by status: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
   /**
    * Get assignments by priority
    */
-  static async getAssignmentsByPriority(priority: RoomAssignmentPriority) {
+  static async getAssignmentsByPriority(priority: RoomAssignmentPriority, propertyId: string) {
     try {
       const assignments = await prisma.roomAssignment.findMany({
-        where: { priority },
+        where: { propertyId, priority, deletedAt: null, archivedAt: null },
         orderBy: { createdAt: "desc" }
       });
       return assignments;
     } catch (error) {
-      throw new Error(`Failed to fetch assignments by priority: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to fetch assignments by priority: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
   /**
    * Get assignments assigned to specific user
    */
-  static async getAssignmentsByUser(userId: string) {
+  static async getAssignmentsByUser(userId: string, propertyId: string) {
     try {
       const assignments = await prisma.roomAssignment.findMany({
-        where: { assignedTo: userId },
+        where: { propertyId, assignedTo: userId, deletedAt: null, archivedAt: null },
         orderBy: [
           { priority: "desc" },
           { createdAt: "desc" }
@@ -230,7 +859,7 @@ export class RoomAssignmentService {
       });
       return assignments;
     } catch (error) {
-      throw new Error(`Failed to fetch user assignments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to fetch user assignments: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 }
\ No newline at end of file
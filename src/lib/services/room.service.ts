@@ -0,0 +1,177 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@/generated/prisma";
+import { CreateRoomData, RoomDaysQuery, UpdateRoomData } from "@/types/property";
+
+const roomInclude = {
+  floor: { select: { id: true, level: true, name: true } }
+} as const;
+
+/**
+ * Thrown when the room does not exist in the property
+ */
+export class RoomNotFoundError extends Error {
+  constructor(id: number) {
+    super(`Room with ID ${id} not found`);
+    this.name = "RoomNotFoundError";
+  }
+}
+
+/**
+ * Thrown when the property already has a room with the number
+ */
+export class RoomNumberTakenError extends Error {
+  constructor(number: string) {
+    super(`Room ${number} already exists`);
+    this.name = "RoomNumberTakenError";
+  }
+}
+
+/**
+ * Thrown when a room is put on a floor of another property
+ */
+export class RoomFloorError extends Error {
+  constructor(public readonly floorId: string) {
+    super(`Floor ${floorId} does not exist in this property`);
+    this.name = "RoomFloorError";
+  }
+}
+
+const isKnownError = (error: unknown) =>
+  error instanceof RoomNotFoundError ||
+  error instanceof RoomNumberTakenError ||
+  error instanceof RoomFloorError;
+
+export class RoomService {
+  /**
+   * Get the property's rooms in room number order, active ones only unless
+   * `includeInactive`
+   */
+  static async listRooms(propertyId: string, includeInactive = false) {
+    try {
+      const rooms = await prisma.room.findMany({
+        where: { propertyId, ...(!includeInactive && { active: true }) },
+        include: roomInclude
+      });
+      return rooms.sort((a, b) => a.number.localeCompare(b.number, undefined, { numeric: true }));
+    } catch (error) {
+      throw new Error(`Failed to fetch rooms: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Add a room to the catalog. It gets its first assignment at the next day
+   * rollover; rooms added from the dashboard get one straight away.
+   */
+  static async createRoom(propertyId: string, data: CreateRoomData) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        if (data.floorId) {
+          await this.assertFloorInProperty(tx, data.floorId, propertyId);
+        }
+
+        return await tx.room.create({
+          data: { ...data, propertyId },
+          include: roomInclude
+        });
+      });
+    } catch (error) {
+      if (isKnownError(error)) throw error;
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        throw new RoomNumberTakenError(data.number);
+      }
+      throw new Error(`Failed to create room: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Change a room's attributes. Assignments already made keep their copy.
+   */
+  static async updateRoom(id: number, propertyId: string, data: UpdateRoomData) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const existing = await tx.room.findFirst({ where: { id, propertyId } });
+        if (!existing) {
+          throw new RoomNotFoundError(id);
+        }
+
+        if (data.floorId && data.floorId !== existing.floorId) {
+          await this.assertFloorInProperty(tx, data.floorId, propertyId);
+        }
+
+        return await tx.room.update({
+          where: { id },
+          data,
+          include: roomInclude
+        });
+      });
+    } catch (error) {
+      if (isKnownError(error)) throw error;
+      throw new Error(`Failed to update room: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * The room's assignments of the last `days` business days, newest first,
+   * with who cleaned and inspected it
+   */
+  static async getDays(id: number, propertyId: string, query: RoomDaysQuery) {
+    try {
+      const room = await prisma.room.findFirst({
+        where: { id, propertyId },
+        include: { property: { select: { businessDate: true } } }
+      });
+      if (!room) {
+        throw new RoomNotFoundError(id);
+      }
+
+      const from = new Date(room.property.businessDate);
+      from.setUTCDate(from.getUTCDate() - query.days + 1);
+
+      return await prisma.roomAssignment.findMany({
+        where: { roomId: id, businessDate: { gte: from } },
+        orderBy: { businessDate: "desc" },
+        include: {
+          assignee: { select: { id: true, email: true, name: true } },
+          inspections: {
+            orderBy: { completedAt: "desc" },
+            select: { id: true, score: true, passed: true, completedAt: true }
+          }
+        }
+      });
+    } catch (error) {
+      if (isKnownError(error)) throw error;
+      throw new Error(`Failed to fetch room days: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * The catalog room with the number, created when the property has none yet
+   * and brought back when it was taken out of service
+   */
+  static async ensureRoom(
+    tx: Prisma.TransactionClient,
+    propertyId: string,
+    data: Pick<CreateRoomData, "number" | "floorId" | "bedType">
+  ) {
+    if (data.floorId) {
+      await this.assertFloorInProperty(tx, data.floorId, propertyId);
+    }
+
+    return await tx.room.upsert({
+      where: { propertyId_number: { propertyId, number: data.number } },
+      update: { active: true },
+      create: { propertyId, number: data.number, floorId: data.floorId, bedType: data.bedType }
+    });
+  }
+
+  private static async assertFloorInProperty(tx: Prisma.TransactionClient, floorId: string, propertyId: string) {
+    const floor = await tx.floor.findFirst({
+      where: { id: floorId, building: { propertyId } },
+      select: { id: true }
+    });
+
+    if (!floor) {
+      throw new RoomFloorError(floorId);
+    }
+  }
+}
@@ -0,0 +1,416 @@
+import { randomBytes } from "crypto";
+import bcrypt from "bcryptjs";
+import { prisma } from "@/lib/prisma";
+import { Prisma, ServiceStatus, UserAuditAction, UserRole } from "@/generated/prisma";
+import { CreateUserData, ListUsersQuery, PaginatedUsers, SafeUser, StaffMember, UpdateUserData } from "@/types/user";
+
+// Everything but the password hash
+const safeUserSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  active: true,
+  shift: true,
+  createdAt: true,
+  updatedAt: true,
+  properties: { select: { propertyId: true } },
+} as const;
+
+type SelectedUser = Prisma.UserGetPayload<{ select: typeof safeUserSelect }>;
+
+const toSafeUser = ({ properties, ...user }: SelectedUser): SafeUser => ({
+  ...user,
+  propertyIds: properties.map((membership) => membership.propertyId),
+});
+
+const PASSWORD_HASH_ROUNDS = 12;
+
+/**
+ * Thrown when the target user does not exist
+ */
+export class UserNotFoundError extends Error {
+  constructor(id: string) {
+    super(`User with ID ${id} not found`);
+    this.name = "UserNotFoundError";
+  }
+}
+
+/**
+ * Thrown when an account with the email already exists
+ */
+export class UserEmailTakenError extends Error {
+  constructor(email: string) {
+    super(`User with email ${email} already exists`);
+    this.name = "UserEmailTakenError";
+  }
+}
+
+/**
+ * Thrown when a user is put in properties that do not exist
+ */
+export class UserPropertyError extends Error {
+  constructor(propertyIds: string[]) {
+    super(`Unknown properties: ${propertyIds.join(", ")}`);
+    this.name = "UserPropertyError";
+  }
+}
+
+/**
+ * Thrown when an admin tries to lock themselves out
+ */
+export class UserSelfChangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserSelfChangeError";
+  }
+}
+
+const generateTemporaryPassword = () => randomBytes(12).toString("base64url");
+
+const isKnownError = (error: unknown) =>
+  error instanceof UserNotFoundError ||
+  error instanceof UserEmailTakenError ||
+  error instanceof UserPropertyError ||
+  error instanceof UserSelfChangeError;
+
+async function assertPropertiesExist(tx: Prisma.TransactionClient, propertyIds: string[]) {
+  const found = await tx.property.findMany({
+    where: { id: { in: propertyIds } },
+    select: { id: true }
+  });
+
+  const unknown = propertyIds.filter((id) => !found.some((property) => property.id === id));
+  if (unknown.length > 0) {
+    throw new UserPropertyError(unknown);
+  }
+}
+
+export class UserService {
+  /**
+   * Get a page of users, newest first
+   */
+  static async listUsers(query: ListUsersQuery): Promise<PaginatedUsers> {
+    const where: Prisma.UserWhereInput = {
+      ...(query.role && { role: query.role }),
+      ...(query.active !== undefined && { active: query.active }),
+      ...(query.search && {
+        OR: [
+          { email: { contains: query.search, mode: "insensitive" } },
+          { name: { contains: query.search, mode: "insensitive" } },
+        ]
+      })
+    };
+
+    try {
+      const [users, total] = await prisma.$transaction([
+        prisma.user.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          skip: (query.page - 1) * query.pageSize,
+          take: query.pageSize,
+          select: safeUserSelect
+        }),
+        prisma.user.count({ where })
+      ]);
+
+      return {
+        users: users.map(toSafeUser),
+        pagination: {
+          page: query.page,
+          pageSize: query.pageSize,
+          total,
+          totalPages: Math.ceil(total / query.pageSize)
+        }
+      };
+    } catch (error) {
+      throw new Error(`Failed to fetch users: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Get user by ID
+   */
+  static async getUser(id: string): Promise<SafeUser> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: safeUserSelect
+      });
+
+      if (!user) {
+        throw new UserNotFoundError(id);
+      }
+
+      return toSafeUser(user);
+    } catch (error) {
+      if (isKnownError(error)) throw error;
+      throw new Error(`Failed to fetch user: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Create or invite a user. Without a password a temporary one is generated
+   * and returned once so it can be handed to the new user.
+   */
+  static async createUser(actorId: string, data: CreateUserData) {
+    try {
+      const existingUser = await prisma.user.findUnique({
+        where: { email: data.email }
+      });
+
+      if (existingUser) {
+        throw new UserEmailTakenError(data.email);
+      }
+
+      const temporaryPassword = data.password ? undefined : generateTemporaryPassword();
+      const hashedPassword = await bcrypt.hash(data.password ?? temporaryPassword!, PASSWORD_HASH_ROUNDS);
+
+      const propertyIds = data.propertyIds ?? [];
+
+      const user = await prisma.$transaction(async (tx) => {
+        await assertPropertiesExist(tx, propertyIds);
+
+        const created = await tx.user.create({
+          data: {
+            email: data.email,
+            name: data.name ?? null,
+            password: hashedPassword,
+            role: data.role,
+            shift: data.shift,
+            properties: { create: propertyIds.map((propertyId) => ({ propertyId })) },
+          },
+          select: safeUserSelect
+        });
+
+        await tx.userAuditEntry.create({
+          data: {
+            action: UserAuditAction.CREATED,
+            actorId,
+            targetUserId: created.id,
+            details: { role: created.role, shift: created.shift, propertyIds, invited: !data.password }
+          }
+        });
+
+        return toSafeUser(created);
+      });
+
+      return { user, temporaryPassword };
+    } catch (error) {
+      if (isKnownError(error)) throw error;
+      // Lost a race with another request creating the same email
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        throw new UserEmailTakenError(data.email);
+      }
+      throw new Error(`Failed to create user: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Change a user's role, shift or properties and/or deactivate or reactivate
+   * them. All changes are applied together with an audit entry each; fields
+   * already at the requested value are left alone. Deactivated users cannot
+   * sign in and their API tokens stop working.
+   */
+  static async updateUser(actorId: string, id: string, data: UpdateUserData): Promise<SafeUser> {
+    if (actorId === id && data.role !== undefined && data.role !== UserRole.ADMIN) {
+      throw new UserSelfChangeError("Admins cannot remove their own admin role");
+    }
+
+    if (actorId === id && data.active === false) {
+      throw new UserSelfChangeError("Admins cannot deactivate themselves");
+    }
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const existingUser = await tx.user.findUnique({
+          where: { id },
+          select: safeUserSelect
+        });
+        if (!existingUser) {
+          throw new UserNotFoundError(id);
+        }
+
+        const changes: Prisma.UserUpdateInput = {};
+        const auditEntries: Prisma.UserAuditEntryCreateManyInput[] = [];
+
+        if (data.role !== undefined && data.role !== existingUser.role) {
+          changes.role = data.role;
+          auditEntries.push({
+            action: UserAuditAction.ROLE_CHANGED,
+            actorId,
+            targetUserId: id,
+            details: { from: existingUser.role, to: data.role }
+          });
+        }
+
+        if (data.shift !== undefined && data.shift !== existingUser.shift) {
+          changes.shift = data.shift;
+          auditEntries.push({
+            action: UserAuditAction.SHIFT_CHANGED,
+            actorId,
+            targetUserId: id,
+            details: { from: existingUser.shift, to: data.shift }
+          });
+        }
+
+        if (data.propertyIds !== undefined) {
+          const from = toSafeUser(existingUser).propertyIds;
+          const added = data.propertyIds.filter((propertyId) => !from.includes(propertyId));
+          const removed = from.filter((propertyId) => !data.propertyIds!.includes(propertyId));
+
+          if (added.length > 0 || removed.length > 0) {
+            await assertPropertiesExist(tx, added);
+
+            changes.properties = {
+              deleteMany: { propertyId: { in: removed } },
+              create: added.map((propertyId) => ({ propertyId }))
+            };
+            auditEntries.push({
+              action: UserAuditAction.PROPERTIES_CHANGED,
+              actorId,
+              targetUserId: id,
+              details: { added, removed }
+            });
+          }
+        }
+
+        if (data.active !== undefined && data.active !== existingUser.active) {
+          changes.active = data.active;
+          auditEntries.push({
+            action: data.active ? UserAuditAction.REACTIVATED : UserAuditAction.DEACTIVATED,
+            actorId,
+            targetUserId: id
+          });
+        }
+
+        if (auditEntries.length === 0) {
+          return toSafeUser(existingUser);
+        }
+
+        const user = await tx.user.update({
+          where: { id },
+          data: changes,
+          select: safeUserSelect
+        });
+
+        await tx.userAuditEntry.createMany({ data: auditEntries });
+
+        return toSafeUser(user);
+      });
+    } catch (error) {
+      if (isKnownError(error)) throw error;
+      throw new Error(`Failed to update user: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Set a new password for a user. Without a password a temporary one is
+   * generated and returned once.
+   */
+  static async resetPassword(actorId: string, id: string, password?: string) {
+    const temporaryPassword = password ? undefined : generateTemporaryPassword();
+    const hashedPassword = await bcrypt.hash(password ?? temporaryPassword!, PASSWORD_HASH_ROUNDS);
+
+    try {
+      const user = await prisma.$transaction(async (tx) => {
+        const existingUser = await tx.user.findUnique({ where: { id } });
+        if (!existingUser) {
+          throw new UserNotFoundError(id);
+        }
+
+        const updated = await tx.user.update({
+          where: { id },
+          data: { password: hashedPassword },
+          select: safeUserSelect
+        });
+
+        await tx.userAuditEntry.create({
+          data: {
+            action: UserAuditAction.PASSWORD_RESET,
+            actorId,
+            targetUserId: id,
+            details: { generated: !password }
+          }
+        });
+
+        return toSafeUser(updated);
+      });
+
+      return { user, temporaryPassword };
+    } catch (error) {
+      if (isKnownError(error)) throw error;
+      throw new Error(`Failed to reset password: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Get the property's staff with how many of its rooms they hold and how
+   * many of those they completed on the property's current business day
+   */
+  static async getStaffOverview(propertyId: string): Promise<StaffMember[]> {
+    try {
+      const { businessDate } = await prisma.property.findUniqueOrThrow({
+        where: { id: propertyId },
+        select: { businessDate: true }
+      });
+
+      const [users, assigned, completed] = await prisma.$transaction([
+        prisma.user.findMany({
+          where: { properties: { some: { propertyId } } },
+          orderBy: [{ active: "desc" }, { name: "asc" }, { email: "asc" }],
+          select: safeUserSelect
+        }),
+        prisma.roomAssignment.groupBy({
+          by: ["assignedTo"],
+          where: { propertyId, businessDate, deletedAt: null, archivedAt: null, assignedTo: { not: null } },
+          orderBy: { assignedTo: "asc" },
+          _count: { _all: true }
+        }),
+        prisma.roomAssignment.groupBy({
+          by: ["assignedTo"],
+          where: {
+            propertyId,
+            businessDate,
+            deletedAt: null,
+            archivedAt: null,
+            assignedTo: { not: null },
+            serviceStatus: ServiceStatus.COMPLETE
+          },
+          orderBy: { assignedTo: "asc" },
+          _count: { _all: true }
+        })
+      ]);
+
+      const countsByUser = (groups: typeof assigned) =>
+        new Map(groups.map((group) => [group.assignedTo, (group._count as { _all: number })._all]));
+      const assignedCounts = countsByUser(assigned);
+      const completedCounts = countsByUser(completed);
+
+      return users.map((user) => ({
+        ...toSafeUser(user),
+        roomsAssigned: assignedCounts.get(user.id) ?? 0,
+        roomsCompletedToday: completedCounts.get(user.id) ?? 0
+      }));
+    } catch (error) {
+      throw new Error(`Failed to fetch staff overview: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+
+  /**
+   * Get the audit trail for a user, newest first
+   */
+  static async getAuditEntries(id: string) {
+    try {
+      return await prisma.userAuditEntry.findMany({
+        where: { targetUserId: id },
+        orderBy: { createdAt: "desc" },
+        include: {
+          actor: { select: { id: true, email: true, name: true } }
+        }
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch user audit entries: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Change feed cursors
+ * Opaque to clients: a base64url-encoded position in the room assignment feed
+ */
+
+interface CursorPayload {
+  v: 1;
+  t: string; // updatedAt of the newest row the client has seen
+}
+
+export function encodeCursor(position: Date): string {
+  const payload: CursorPayload = { v: 1, t: position.toISOString() };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor into its feed position, or null when it is malformed
+ */
+export function decodeCursor(cursor: string): Date | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as Partial<CursorPayload>;
+    if (payload.v !== 1 || typeof payload.t !== 'string') {
+      return null;
+    }
+
+    const position = new Date(payload.t);
+    return isNaN(position.getTime()) ? null : position;
+  } catch {
+    return null;
+  }
+}
@@ -1,8 +1,25 @@
 import { withAuth } from "next-auth/middleware";
+import { unauthenticated } from "@/lib/auth-errors";
+
+// API routes reachable without signing in: NextAuth's own endpoints and signup
+const PUBLIC_API_PREFIXES = ["/api/auth/"];
+
+const isPublicApiPath = (pathname: string) =>
+  PUBLIC_API_PREFIXES.some((prefix) => pathname.startsWith(prefix));
 
 export default withAuth(
   function middleware(req) {
-    // Add any additional middleware logic here if needed
+    const { pathname } = req.nextUrl;
+
+    if (pathname.startsWith("/api/") && !isPublicApiPath(pathname)) {
+      // Bearer tokens are checked against the database by the route's auth
+      // guard; the edge runtime can only see that one was sent
+      const hasBearerToken = req.headers.get("authorization")?.startsWith("Bearer ");
+
+      if (!req.nextauth.token && !hasBearerToken) {
+        return unauthenticated();
+      }
+    }
   },
   {
     callbacks: {
@@ -13,6 +30,7 @@ export default withAuth(
           // This prevents logout when offline or database is unavailable
           return !!token && (token.offlineCapable === true || !!token.id);
         }
+        // API routes answer with JSON instead of a login redirect, see above
         return true;
       },
     },
@@ -20,5 +38,5 @@ export default withAuth(
 );
 
 export const config = {
-  matcher: ["/dashboard/:path*"],
+  matcher: ["/dashboard/:path*", "/api/:path*"],
 };
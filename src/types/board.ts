@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { StaffShift } from "@/generated/prisma";
+
+// Kinds of cleaning work, derived from a room's occupancyStatus
+export enum BoardTaskType {
+  DEPARTURE = "DEPARTURE",
+  STAY_OVER = "STAY_OVER",
+  VACANT = "VACANT",
+}
+
+// Credits a task counts for when balancing attendants' workloads
+export const DEFAULT_TASK_CREDITS: Record<BoardTaskType, number> = {
+  [BoardTaskType.DEPARTURE]: 2,
+  [BoardTaskType.STAY_OVER]: 1,
+  [BoardTaskType.VACANT]: 1,
+};
+
+// Zod schemas for validation
+export const GenerateBoardSchema = z.object({
+  shift: z.nativeEnum(StaffShift),
+  credits: z
+    .object({
+      [BoardTaskType.DEPARTURE]: z.number().positive().optional(),
+      [BoardTaskType.STAY_OVER]: z.number().positive().optional(),
+      [BoardTaskType.VACANT]: z.number().positive().optional(),
+    })
+    .optional(),
+  // When false, rooms already held by an attendant on the shift stay with them
+  reassignAll: z.boolean().optional(),
+});
+
+export const ApplyBoardSchema = z.object({
+  assignments: z
+    .array(
+      z.object({
+        roomId: z.number().int(),
+        userId: z.string().min(1),
+        // Version the preview was generated from; the room is not reassigned
+        // if it changed since
+        version: z.number().int(),
+      })
+    )
+    .min(1, "Board has no assignments"),
+});
+
+// TypeScript types
+export type GenerateBoardOptions = z.infer<typeof GenerateBoardSchema>;
+export type ApplyBoardData = z.infer<typeof ApplyBoardSchema>;
+
+export interface BoardRoom {
+  id: number;
+  roomNumber: string;
+  floor: string;
+  taskType: BoardTaskType;
+  credits: number;
+  version: number;
+  // Whether the room already belonged to this attendant
+  kept: boolean;
+}
+
+export interface BoardAttendantLoad {
+  user: { id: string; name: string | null; email: string };
+  rooms: BoardRoom[];
+  totalCredits: number;
+  floors: string[];
+}
+
+export interface RoomBoard {
+  shift: StaffShift;
+  credits: Record<BoardTaskType, number>;
+  attendants: BoardAttendantLoad[];
+  // Rooms left over when nobody is on the shift
+  unassigned: BoardRoom[];
+  generatedAt: string;
+}
@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { CleaningServiceType } from "@/generated/prisma";
+
+// Re-export enums for easier imports
+export { CleaningServiceType };
+
+// Zod schemas for validation
+export const CreateCleaningChecklistSchema = z.object({
+  serviceType: z.nativeEnum(CleaningServiceType),
+  name: z.string().trim().min(1, "Name is required"),
+  steps: z.array(z.string().trim().min(1, "Step label is required")).min(1, "A checklist needs at least one step"),
+});
+
+export const UpdateCleaningChecklistSchema = CreateCleaningChecklistSchema.partial().extend({
+  active: z.boolean().optional(),
+});
+
+// TypeScript types
+export type CreateCleaningChecklistData = z.infer<typeof CreateCleaningChecklistSchema>;
+export type UpdateCleaningChecklistData = z.infer<typeof UpdateCleaningChecklistSchema>;
+
+export interface CleaningChecklistStep {
+  id: string;
+  label: string;
+  position: number;
+}
+
+export interface CleaningChecklistTemplate {
+  id: string;
+  serviceType: CleaningServiceType;
+  name: string;
+  active: boolean;
+  steps: CleaningChecklistStep[];
+}
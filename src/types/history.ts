@@ -0,0 +1,23 @@
+import { RoomAssignmentEventSource, RoomAssignmentEventType } from "@/generated/prisma";
+
+// Re-export enums for easier imports
+export { RoomAssignmentEventSource, RoomAssignmentEventType };
+
+export interface RoomFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface RoomAssignmentEvent {
+  id: string;
+  roomAssignmentId: number;
+  type: RoomAssignmentEventType;
+  source: RoomAssignmentEventSource;
+  actorId?: string | null;
+  actor?: { id: string; email: string; name?: string | null } | null;
+  changes: RoomFieldChange[];
+  version: number;
+  deviceTime?: string | Date | null; // When the change was made on the device, for offline edits
+  createdAt: string | Date;
+}
@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { InspectionItemOutcome } from "@/generated/prisma";
+
+// Re-export enums for easier imports
+export { InspectionItemOutcome };
+
+// Zod schemas for validation
+const InspectionTemplateItemSchema = z.object({
+  label: z.string().trim().min(1, "Item label is required"),
+  weight: z.number().int().min(1).max(10).optional(),
+  critical: z.boolean().optional(),
+});
+
+export const CreateInspectionTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  // Matches the room's bedType; left out for the default checklist
+  roomType: z.string().trim().min(1).nullable().optional(),
+  passingScore: z.number().int().min(0).max(100).optional(),
+  items: z.array(InspectionTemplateItemSchema).min(1, "A checklist needs at least one item"),
+});
+
+export const UpdateInspectionTemplateSchema = CreateInspectionTemplateSchema.partial().extend({
+  active: z.boolean().optional(),
+});
+
+export const RecordInspectionSchema = z.object({
+  templateId: z.string().min(1),
+  startedAt: z.coerce.date().optional(),
+  notes: z.string().optional(),
+  results: z
+    .array(
+      z.object({
+        itemId: z.string().min(1),
+        outcome: z.nativeEnum(InspectionItemOutcome),
+        notes: z.string().optional(),
+      })
+    )
+    .min(1, "Inspection has no results"),
+});
+
+// TypeScript types
+export type CreateInspectionTemplateData = z.infer<typeof CreateInspectionTemplateSchema>;
+export type UpdateInspectionTemplateData = z.infer<typeof UpdateInspectionTemplateSchema>;
+export type RecordInspectionData = z.infer<typeof RecordInspectionSchema>;
+
+export interface InspectionTemplateItem {
+  id: string;
+  label: string;
+  weight: number;
+  critical: boolean;
+  position: number;
+}
+
+export interface InspectionTemplate {
+  id: string;
+  name: string;
+  roomType: string | null;
+  passingScore: number;
+  active: boolean;
+  items: InspectionTemplateItem[];
+}
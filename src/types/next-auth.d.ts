@@ -1,4 +1,5 @@
 import NextAuth from "next-auth";
+import type { UserRole } from "@/generated/prisma";
 
 declare module "next-auth" {
   interface Session {
@@ -7,6 +8,7 @@ declare module "next-auth" {
       name?: string | null;
       email?: string | null;
       image?: string | null;
+      role: UserRole;
     };
     offlineCapable?: boolean;
     loginTime?: number;
@@ -17,6 +19,7 @@ declare module "next-auth" {
     name?: string | null;
     email?: string | null;
     image?: string | null;
+    role?: UserRole;
   }
 }
 
@@ -25,6 +28,7 @@ declare module "next-auth/jwt" {
     id: string;
     email?: string;
     name?: string;
+    role?: UserRole;
     offlineCapable?: boolean;
     loginTime?: number;
   }
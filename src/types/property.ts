@@ -0,0 +1,115 @@
+import { z } from "zod";
+
+const isTimeZone = (zone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Zod schemas for validation
+export const CreateFloorSchema = z.object({
+  level: z.number().int().min(-10).max(200),
+  name: z.string().trim().min(1, "Floor name is required"),
+});
+
+export const CreateBuildingSchema = z.object({
+  name: z.string().trim().min(1, "Building name is required"),
+  floors: z.array(CreateFloorSchema).default([]),
+});
+
+export const CreatePropertySchema = z.object({
+  code: z.string().trim().min(1, "Code is required").max(16).transform((code) => code.toUpperCase()),
+  name: z.string().trim().min(1, "Name is required"),
+  timeZone: z
+    .string()
+    .refine(isTimeZone, "Unknown time zone")
+    .nullable()
+    .optional(),
+  buildings: z.array(CreateBuildingSchema).default([]),
+});
+
+const RoomAttributesSchema = z.object({
+  floorId: z.string().min(1).nullable().optional(),
+  roomType: z.string().trim().min(1).nullable().optional(),
+  bedType: z.string().trim().min(1).nullable().optional(),
+  features: z.array(z.string().trim().min(1)).optional(),
+});
+
+export const CreateRoomSchema = RoomAttributesSchema.extend({
+  number: z.string().trim().min(1, "Room number is required"),
+});
+
+export const UpdateRoomSchema = RoomAttributesSchema.extend({
+  // Inactive rooms get no assignments from the next day on
+  active: z.boolean().optional(),
+}).refine((data) => Object.values(data).some((value) => value !== undefined), {
+  message: "Nothing to update",
+});
+
+export const RoomDaysQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(366).default(30),
+});
+
+export const DayRolloverSchema = z.object({
+  // Only this property; every property when left out
+  propertyId: z.string().min(1).optional(),
+  // The day to open, e.g. "2026-10-20"; the property's local today by default
+  businessDate: z.iso.date().transform((value) => new Date(value)).optional(),
+});
+
+// TypeScript types
+export type CreateFloorData = z.infer<typeof CreateFloorSchema>;
+export type CreateBuildingData = z.infer<typeof CreateBuildingSchema>;
+export type CreatePropertyData = z.infer<typeof CreatePropertySchema>;
+export type CreateRoomData = z.infer<typeof CreateRoomSchema>;
+export type UpdateRoomData = z.infer<typeof UpdateRoomSchema>;
+export type RoomDaysQuery = z.infer<typeof RoomDaysQuerySchema>;
+export type DayRolloverOptions = z.infer<typeof DayRolloverSchema>;
+
+export interface Floor {
+  id: string;
+  level: number;
+  name: string;
+}
+
+export interface Building {
+  id: string;
+  name: string;
+  floors: Floor[];
+}
+
+export interface Property {
+  id: string;
+  code: string;
+  name: string;
+  timeZone: string | null;
+  businessDate: string; // ISO date at midnight UTC
+  buildings: Building[];
+}
+
+// A room of the property's catalog, as opposed to one day's assignment of it
+export interface CatalogRoom {
+  id: number;
+  propertyId: string;
+  floorId: string | null;
+  floor: Floor | null;
+  number: string;
+  roomType: string | null;
+  bedType: string | null;
+  features: string[];
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DayRolloverResult {
+  propertyId: string;
+  code: string;
+  businessDate: string; // The open business day afterwards, e.g. "2026-10-20"
+  rolledOver: boolean; // False when the property already was on that day
+  created: number;
+  archived: number;
+}
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { RoomAssignmentStatus, RoomAssignmentPriority, RoomOccupancy, ServiceStatus } from "@/generated/prisma";
+import { CleaningServiceType, RoomAssignmentStatus, RoomAssignmentPriority, RoomOccupancy, ServiceStatus } from "@/generated/prisma";
 
 // Re-export enums for easier imports
 export { RoomAssignmentStatus, RoomAssignmentPriority, RoomOccupancy, ServiceStatus };
@@ -19,24 +19,74 @@ export enum RoomPriority {
 }
 
 // Zod schemas for validation
-export const CreateRoomAssignmentSchema = z.object({
+// Instants travel as ISO 8601 strings with an offset, e.g. 2026-10-19T10:00:00+07:00
+const TimestampSchema = z.iso.datetime({ offset: true });
+
+export const RoomTimeFieldsSchema = z.object({
+  checkoutTime: TimestampSchema.nullable().optional(),
+  guestCheckout: TimestampSchema.nullable().optional(),
+  nextCheckin: TimestampSchema.nullable().optional(),
+  estimatedMinutes: z.number().int().min(0).max(24 * 60).nullable().optional(),
+});
+
+export const CreateRoomAssignmentSchema = RoomTimeFieldsSchema.extend({
   roomNumber: z.string().min(1, "Room number is required"),
-  status: z.nativeEnum(RoomAssignmentStatus).optional(),
+  // Only a recorded inspection marks a room INSPECTED
+  status: z
+    .nativeEnum(RoomAssignmentStatus)
+    .refine((status) => status !== RoomAssignmentStatus.INSPECTED, "Record an inspection to mark a room as inspected")
+    .optional(),
   priority: z.nativeEnum(RoomAssignmentPriority).optional(),
   occupancy: z.nativeEnum(RoomOccupancy).optional(),
-  checkoutTime: z.string().optional(),
-  estimatedTime: z.string().optional(),
-  notes: z.string().optional(),
-  guestCheckout: z.string().optional(),
-  nextCheckin: z.string().optional(),
-  guestName: z.string().optional(),
-  occupancyStatus: z.string().optional(),
-  bedType: z.string().optional(),
+  notes: z.string().nullable().optional(),
+  guestName: z.string().nullable().optional(),
+  occupancyStatus: z.string().nullable().optional(),
+  bedType: z.string().nullable().optional(),
   serviceStatus: z.nativeEnum(ServiceStatus).optional(),
-  assignedTo: z.string().optional(),
+  assignedTo: z.string().nullable().optional(),
+  cleaningType: z.nativeEnum(CleaningServiceType).nullable().optional(),
+  completedSteps: z.array(z.string()).optional(),
+  floorId: z.string().nullable().optional(), // Floor of a room the catalog does not have yet
+});
+
+// An update may resend the INSPECTED status a room already has; the service
+// refuses changing a room to it
+export const UpdateRoomAssignmentSchema = CreateRoomAssignmentSchema.partial()
+  .omit({ roomNumber: true, floorId: true })
+  .extend({ status: z.nativeEnum(RoomAssignmentStatus).optional() });
+
+// Older clients send the notes as housekeepingNote
+const withLegacyNotes = (body: unknown) => {
+  if (!body || typeof body !== "object" || !("housekeepingNote" in body)) return body;
+  const { housekeepingNote, ...rest } = body as Record<string, unknown>;
+  return { notes: housekeepingNote, ...rest };
+};
+
+// Request bodies; unknown keys such as id, version or createdAt are dropped
+export const CreateRoomAssignmentBodySchema = z.preprocess(withLegacyNotes, CreateRoomAssignmentSchema);
+export const UpdateRoomAssignmentBodySchema = z.preprocess(withLegacyNotes, UpdateRoomAssignmentSchema);
+
+export const MAX_BULK_UPDATES = 200;
+
+export const BulkUpdateRoomAssignmentsSchema = z.object({
+  updates: z
+    .array(
+      z.object({
+        id: z.coerce.number().int().positive(),
+        baseVersion: z.number().int().optional(),
+        // When the change was made on the device, for offline edits
+        deviceTime: z.iso.datetime({ offset: true }).nullable().optional(),
+        data: UpdateRoomAssignmentBodySchema,
+      })
+    )
+    .min(1, "Missing required field: updates")
+    .max(MAX_BULK_UPDATES, `Too many updates: maximum is ${MAX_BULK_UPDATES} per request`),
+  atomic: z.boolean().optional(),
 });
 
-export const UpdateRoomAssignmentSchema = CreateRoomAssignmentSchema.partial().omit({ roomNumber: true });
+export const AssignRoomSchema = z.object({
+  userId: z.string().min(1, "Missing required field: userId"),
+});
 
 export const FilterOptionsSchema = z.object({
   cleanliness: z.array(z.nativeEnum(RoomAssignmentStatus)).optional(),
@@ -54,40 +104,66 @@ export type FilterOptionsData = z.infer<typeof FilterOptionsSchema>;
 // Room Assignment type based on Prisma model
 export interface RoomAssignment {
   id: number; // Fixed: Changed from string to number to match database schema
+  propertyId: string;
+  roomId?: number; // Catalog room; unknown until a room created offline is synced
+  businessDate?: string; // ISO date at midnight UTC
   roomNumber: string;
   status: RoomAssignmentStatus;
   priority: RoomAssignmentPriority;
   occupancy: RoomOccupancy;
-  checkoutTime?: string | null;
-  estimatedTime?: string | null;
+  checkoutTime?: string | null; // ISO 8601
+  estimatedMinutes?: number | null;
   notes?: string | null;
-  guestCheckout?: string | null;
-  nextCheckin?: string | null;
+  guestCheckout?: string | null; // ISO 8601
+  nextCheckin?: string | null; // ISO 8601
   guestName?: string | null;
   occupancyStatus?: string | null;
   bedType?: string | null;
   serviceStatus: ServiceStatus;
   assignedTo?: string | null;
+  reworkNote?: string | null;
+  cleaningType?: CleaningServiceType | null;
+  completedSteps?: string[];
+  version: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Marker left by a deleted room assignment
+export interface RoomAssignmentTombstone {
+  id: number;
+  roomNumber: string;
+  deletedAt: Date;
+}
+
+// Response of GET /api/room-assignments?since=<cursor>
+export interface RoomAssignmentChangeFeed {
+  changed: RoomAssignment[];
+  deleted: RoomAssignmentTombstone[];
+  cursor: string;
+  full: boolean; // true when the feed is a snapshot of every live room
+}
+
 export interface Room {
   id: number;
   roomNumber: string;
   status: RoomStatus;
   priority: RoomPriority;
   occupancy: RoomOccupancy;
-  checkoutTime: string;
-  estimatedTime: string;
+  checkoutTime?: string | null;
+  estimatedMinutes?: number | null;
   notes?: string;
   // Legacy properties for compatibility
-  guestCheckout?: string;
-  nextCheckin?: string;
+  guestCheckout?: string | null;
+  nextCheckin?: string | null;
   guestName?: string | null;
   occupancyStatus?: string;
   bedType?: string;
   serviceStatus?: ServiceStatus;
+  assignedTo?: string | null;
+  reworkNote?: string | null;
+  cleaningType?: CleaningServiceType | null;
+  completedSteps?: string[];
 }
 
 export interface FilterOptions {
@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { CleaningTimerEventType } from "@/generated/prisma";
+
+// Re-export enums for easier imports
+export { CleaningTimerEventType };
+
+// Zod schemas for validation
+export const TimerEventSchema = z.object({
+  id: z.string().uuid(),
+  type: z.nativeEnum(CleaningTimerEventType),
+  reason: z.string().trim().max(200).optional(),
+  deviceTime: z.coerce.date(),
+});
+
+export const RecordTimerEventsSchema = z.object({
+  events: z.array(TimerEventSchema).min(1, "No timer events").max(100),
+  // The device's clock when it sent the batch, to measure how far off it is
+  sentAt: z.coerce.date(),
+});
+
+export const CleaningTimeReportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  attendantId: z.string().optional(),
+});
+
+// TypeScript types
+export type TimerEventData = z.infer<typeof TimerEventSchema>;
+export type RecordTimerEventsData = z.infer<typeof RecordTimerEventsSchema>;
+export type CleaningTimeReportQuery = z.infer<typeof CleaningTimeReportQuerySchema>;
+
+export interface CleaningTimerEvent {
+  id: string;
+  roomAssignmentId: number;
+  userId?: string | null;
+  type: CleaningTimerEventType;
+  reason?: string | null;
+  deviceTime: string | Date;
+  occurredAt: string | Date;
+}
+
+export interface CleaningTimeReportRow {
+  roomAssignmentId: number;
+  roomNumber: string;
+  attendantId: string | null; // Who started the clean
+  attendantName: string | null;
+  startedAt: string | Date;
+  finishedAt: string | Date | null;
+  actualMinutes: number;
+  pausedMinutes: number;
+  estimatedMinutes: number | null;
+  varianceMinutes: number | null; // actual minus estimated; positive means over
+}
+
+export interface CleaningTimeAttendantTotals {
+  userId: string | null;
+  name: string | null;
+  rooms: number;
+  actualMinutes: number;
+  estimatedMinutes: number; // Only rooms with an estimate count here
+  averageMinutes: number;
+}
+
+export interface CleaningTimeReport {
+  from: string | Date;
+  to: string | Date;
+  rows: CleaningTimeReportRow[];
+  attendants: CleaningTimeAttendantTotals[];
+}
@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { UserRole, UserAuditAction, StaffShift } from "@/generated/prisma";
+
+// Re-export enums for easier imports
+export { UserRole, UserAuditAction, StaffShift };
+
+// Zod schemas for validation
+export const CreateUserSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  name: z.string().min(2, "Name must be at least 2 characters").optional(),
+  // Left out to invite the user with a generated temporary password
+  password: z.string().min(6, "Password must be at least 6 characters").optional(),
+  role: z.nativeEnum(UserRole).optional(),
+  shift: z.nativeEnum(StaffShift).optional(),
+  // Left out to add the user to the property the request acts in
+  propertyIds: z.array(z.string().min(1)).optional(),
+});
+
+export const UpdateUserSchema = z
+  .object({
+    role: z.nativeEnum(UserRole).optional(),
+    active: z.boolean().optional(),
+    // null takes the user off the shift rota
+    shift: z.nativeEnum(StaffShift).nullable().optional(),
+    // Replaces every property the user works at
+    propertyIds: z.array(z.string().min(1)).optional(),
+  })
+  .refine(
+    (data) =>
+      data.role !== undefined ||
+      data.active !== undefined ||
+      data.shift !== undefined ||
+      data.propertyIds !== undefined,
+    { message: "Nothing to update: provide role, active, shift and/or propertyIds" }
+  );
+
+export const MAX_TOKEN_LIFETIME_DAYS = 365;
+
+export const IssueApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  // The user the token acts as; the caller when left out
+  userId: z.string().min(1).optional(),
+  expiresInDays: z.number().int().min(1).max(MAX_TOKEN_LIFETIME_DAYS).optional(),
+});
+
+export const ResetPasswordSchema = z.object({
+  // Left out to have a temporary password generated
+  password: z.string().min(6, "Password must be at least 6 characters").optional(),
+});
+
+export const ListUsersQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  role: z.nativeEnum(UserRole).optional(),
+  active: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  search: z.string().trim().min(1).optional(),
+});
+
+// TypeScript types
+export type CreateUserData = z.infer<typeof CreateUserSchema>;
+export type UpdateUserData = z.infer<typeof UpdateUserSchema>;
+export type ResetPasswordData = z.infer<typeof ResetPasswordSchema>;
+export type ListUsersQuery = z.infer<typeof ListUsersQuerySchema>;
+
+// User as returned by the API; never includes the password hash
+export interface SafeUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+  active: boolean;
+  shift: StaffShift | null;
+  propertyIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PaginatedUsers {
+  users: SafeUser[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+// Row of the staff screen: a user with their room workload
+export interface StaffMember extends SafeUser {
+  roomsAssigned: number;
+  roomsCompletedToday: number;
+}